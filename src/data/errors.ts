@@ -0,0 +1,20 @@
+// src/data/errors.ts
+import { NotFoundError } from "./memory/utils";
+
+// -----------------------------
+// Error Classification
+// -----------------------------
+// Repositories throw whatever their backend throws; these helpers classify
+// errors without callers knowing which adapter is installed.
+
+// `getById` / `update` on a missing row (PostgREST `.single()` with no match)
+export function isNotFoundError(err: unknown): boolean {
+  return err instanceof NotFoundError || (err as { code?: string })?.code === "PGRST116";
+}
+
+// The request never reached the backend (offline, DNS, dropped connection)
+export function isNetworkError(err: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = String((err as { message?: unknown })?.message ?? "");
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
@@ -0,0 +1,25 @@
+// src/data/index.ts
+import type { Repositories } from "./types";
+import { createSupabaseRepositories } from "./supabase";
+
+// -----------------------------
+// Repository Registry
+// -----------------------------
+// Hooks resolve repositories at call time, so swapping adapters
+// (e.g. the in-memory adapter for offline runs or tests) takes effect
+// on the next query without touching any hook.
+let repositories: Repositories = createSupabaseRepositories();
+
+export function getRepositories(): Repositories {
+  return repositories;
+}
+
+export function configureRepositories(overrides: Partial<Repositories>) {
+  repositories = { ...repositories, ...overrides };
+}
+
+export * from "./types";
+export * from "./pagination";
+export * from "./errors";
+export * from "./supabase";
+export * from "./memory";
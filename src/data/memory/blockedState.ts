@@ -0,0 +1,38 @@
+// src/data/memory/blockedState.ts
+import type { Task } from "@/stores/useTaskStore";
+import {
+  computeIsBlocked,
+  DependencyCycleError,
+  findDependencyCycle,
+} from "@/features/tasks/taskDependencies";
+import type { MemoryDatabase } from "./database";
+
+// -----------------------------
+// Blocked State Maintenance
+// -----------------------------
+// Does the work of the database triggers behind the Supabase adapter (see
+// supabase/migrations): recompute the stored `isBlocked` of the tasks in
+// `taskIds` and of every task they block. Returns the tasks whose flag
+// changed.
+export function refreshBlockedState(db: MemoryDatabase, taskIds: string[]): Task[] {
+  const ids = new Set(taskIds);
+  const changed: Task[] = [];
+
+  for (const task of db.tasks.values()) {
+    if (!ids.has(task.id) && !task.blockedBy?.some((id) => ids.has(id))) continue;
+    const isBlocked = computeIsBlocked(task, (id) => db.tasks.get(id));
+    if (isBlocked === !!task.isBlocked) continue;
+
+    const updated = { ...task, isBlocked };
+    db.tasks.set(task.id, updated);
+    changed.push(updated);
+  }
+
+  return changed;
+}
+
+// Mirrors the Supabase adapter's check right before a write
+export function assertNoDependencyCycle(db: MemoryDatabase, taskId: string, blockedBy: string[]) {
+  const cycle = findDependencyCycle(taskId, blockedBy, (id) => db.tasks.get(id)?.blockedBy ?? []);
+  if (cycle) throw new DependencyCycleError(cycle);
+}
@@ -0,0 +1,33 @@
+// src/data/memory/changeFeed.ts
+import type { ChangeFeed, ChangeFeedTable, ChangeFeedTables, RowChange } from "../types";
+
+// -----------------------------
+// In-memory Change Feed
+// -----------------------------
+// The in-memory repositories emit every write here. Tests can also call
+// `emit` directly to simulate a teammate's edit.
+export interface MemoryChangeFeed extends ChangeFeed {
+  emit: <K extends ChangeFeedTable>(table: K, change: RowChange<ChangeFeedTables[K]>) => void;
+}
+
+type Listener = (change: RowChange<never>) => void;
+
+export function createMemoryChangeFeed(): MemoryChangeFeed {
+  const listeners = new Map<ChangeFeedTable, Set<Listener>>();
+
+  return {
+    subscribe: (table, listener) => {
+      const tableListeners = listeners.get(table) ?? new Set<Listener>();
+      listeners.set(table, tableListeners);
+      tableListeners.add(listener as Listener);
+      return () => {
+        tableListeners.delete(listener as Listener);
+      };
+    },
+
+    // Listeners get their own copy, like rows arriving over the wire
+    emit: (table, change) => {
+      listeners.get(table)?.forEach((listener) => listener(structuredClone(change) as never));
+    },
+  };
+}
@@ -0,0 +1,45 @@
+// src/data/memory/database.ts
+import type { Task } from "@/stores/useTaskStore";
+import type { Event } from "@/stores/useEventStore";
+import type { Member } from "@/stores/useMemberStore";
+import type { SavedView } from "@/stores/useSavedViewStore";
+import { createMemoryChangeFeed, type MemoryChangeFeed } from "./changeFeed";
+
+// -----------------------------
+// Shared In-memory Tables
+// -----------------------------
+// All in-memory repositories of one `createMemoryRepositories()` call share
+// these tables and one change feed, so cross-table effects (e.g. event
+// progress) behave like the real backend.
+export interface MemorySeed {
+  tasks?: Task[];
+  events?: Event[];
+  members?: Member[];
+  savedViews?: SavedView[];
+  files?: Record<string, Blob>; // by path
+}
+
+export interface MemoryFile {
+  blob: Blob;
+  url: string | null; // object URL, created on first use
+}
+
+export interface MemoryDatabase {
+  tasks: Map<string, Task>;
+  events: Map<string, Event>;
+  members: Member[];
+  savedViews: Map<string, SavedView>;
+  files: Map<string, MemoryFile>;
+  changes: MemoryChangeFeed;
+}
+
+export function createMemoryDatabase(seed: MemorySeed = {}): MemoryDatabase {
+  return {
+    tasks: new Map((seed.tasks ?? []).map((task) => [task.id, { ...task }])),
+    events: new Map((seed.events ?? []).map((event) => [event.id, { ...event }])),
+    members: (seed.members ?? []).map((member) => ({ ...member })),
+    savedViews: new Map((seed.savedViews ?? []).map((view) => [view.id, { ...view }])),
+    files: new Map(Object.entries(seed.files ?? {}).map(([path, blob]) => [path, { blob, url: null }])),
+    changes: createMemoryChangeFeed(),
+  };
+}
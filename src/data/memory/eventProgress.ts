@@ -0,0 +1,33 @@
+// src/data/memory/eventProgress.ts
+import { computeEventProgress } from "@/features/events/eventProgress";
+import type { Event } from "@/stores/useEventStore";
+import type { MemoryDatabase } from "./database";
+
+// -----------------------------
+// Event Progress Maintenance
+// -----------------------------
+// Does the work of the database trigger behind the Supabase adapter (see
+// supabase/migrations): recompute the stored `progress` of every
+// event in `eventIds` from its linked tasks (trashed tasks excluded).
+// Returns the events whose progress changed.
+export function refreshEventProgress(
+  db: MemoryDatabase,
+  eventIds: (string | null | undefined)[]
+): Event[] {
+  const ids = new Set(eventIds.filter((id): id is string => !!id));
+  const tasks = [...db.tasks.values()];
+  const changed: Event[] = [];
+
+  for (const event of db.events.values()) {
+    if (!ids.has(event.id)) continue;
+    const linked = tasks.filter((t) => t.eventId === event.id && !t.deletedAt);
+    const progress = computeEventProgress(linked);
+    if (progress === event.progress) continue;
+
+    const updated = { ...event, progress };
+    db.events.set(event.id, updated);
+    changed.push(updated);
+  }
+
+  return changed;
+}
@@ -0,0 +1,111 @@
+// src/data/memory/eventRepository.ts
+import type { Event } from "@/stores/useEventStore";
+import type { DateRange, EventListParams, EventRepository, NumberRange } from "../types";
+import { paginate } from "../pagination";
+import { generateId, matchesSearch, orderBy, NotFoundError } from "./utils";
+import type { MemoryDatabase } from "./database";
+import { refreshEventProgress } from "./eventProgress";
+import { removeUnusedFiles } from "./fileRepository";
+
+// -----------------------------
+// In-memory Event Adapter
+// -----------------------------
+// A repeating event may recur in any range after its start; the hooks
+// expand its occurrences
+function overlaps(event: Event, { from, to }: DateRange): boolean {
+  const start = event.startDate.slice(0, 10);
+  if (event.recurrence) return !to || start <= to;
+  const end = (event.endDate || event.startDate).slice(0, 10);
+  return (!to || start <= to) && (!from || end >= from);
+}
+
+function inRange(value: number, { min, max }: NumberRange): boolean {
+  return value >= min && value <= max;
+}
+
+// Whether an event belongs in a list with these params (paging aside)
+export function matchesEventListParams(event: Event, params: EventListParams): boolean {
+  // Trash
+  if (!!event.deleted_at !== !!params.trashed) return false;
+
+  // Search
+  if (params.search && !matchesSearch(event.title, params.search)) return false;
+
+  // Filter by progress (label bands, then the numeric range)
+  if (params.progress?.length && !params.progress.some((r) => inRange(event.progress, r))) {
+    return false;
+  }
+  if (params.progressBetween && !inRange(event.progress, params.progressBetween)) return false;
+
+  // Filter by date ranges
+  return !params.dateRanges?.length || params.dateRanges.some((r) => overlaps(event, r));
+}
+
+export function createMemoryEventRepository(db: MemoryDatabase): EventRepository {
+  const rows = db.events;
+
+  const find = (id: string) => {
+    const event = rows.get(id);
+    if (!event) throw new NotFoundError("events", id);
+    return event;
+  };
+
+  return {
+    list: async (params) => {
+      let result = [...rows.values()].filter((e) => matchesEventListParams(e, params));
+
+      // Sorting
+      if (params.sortBy) {
+        const ascending = params.sortDirection === "asc";
+        result = orderBy(result, params.sortBy as keyof Event, ascending);
+      }
+
+      return paginate(result, params);
+    },
+
+    getById: async (id) => ({ ...find(id) }),
+
+    // `progress` is derived from linked tasks, never written directly
+    create: async ({ progress: _derived, ...data }) => {
+      const now = new Date().toISOString();
+      const event = {
+        participants: [],
+        ...data,
+        progress: 0,
+        id: data.id ?? generateId(),
+        created_at: now,
+        updated_at: now,
+      } as Event;
+      rows.set(event.id, event);
+      // A re-created event (undo, restore) picks up tasks still linked to its id
+      refreshEventProgress(db, [event.id]);
+      db.changes.emit("events", { type: "insert", record: find(event.id) });
+      return { ...find(event.id) };
+    },
+
+    update: async (id, { progress: _derived, ...data }, options) => {
+      const previous = find(id);
+      if (options?.ifVersion && previous.updated_at !== options.ifVersion) throw new NotFoundError("events", id);
+      const event = { ...previous, ...data, id, updated_at: new Date().toISOString() };
+      rows.set(id, event);
+      db.changes.emit("events", { type: "update", record: event });
+      return { ...event };
+    },
+
+    remove: async (id) => {
+      const previous = find(id);
+      rows.delete(id);
+      db.changes.emit("events", { type: "delete", id });
+
+      // Mirrors the `tasks."eventId"` foreign key (on delete set null)
+      for (const task of db.tasks.values()) {
+        if (task.eventId !== id) continue;
+        const unlinked = { ...task, eventId: null, updatedAt: new Date().toISOString() };
+        db.tasks.set(task.id, unlinked);
+        db.changes.emit("tasks", { type: "update", record: unlinked });
+      }
+      removeUnusedFiles(db, [previous.coverImage]);
+      return id;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+// src/data/memory/fileRepository.ts
+import type { FileRepository } from "../types";
+import type { MemoryDatabase } from "./database";
+import { isStoredFile } from "@/features/uploads/uploads";
+
+// -----------------------------
+// In-memory File Storage
+// -----------------------------
+// Files are kept as blobs and served from object URLs; thumbnails are the
+// full image (nothing is resized).
+
+// Deletes the files in `refs` no task or event refers to any more. The task
+// and event adapters call this after removing a row.
+export function removeUnusedFiles(db: MemoryDatabase, refs: (string | null | undefined)[]): string[] {
+  const paths = [...new Set(refs.filter(isStoredFile))];
+  const used = new Set<string | null | undefined>([
+    ...[...db.tasks.values()].flatMap((task) => task.attachments ?? []),
+    ...[...db.events.values()].map((event) => event.coverImage),
+  ]);
+
+  return paths.filter((path) => {
+    const file = db.files.get(path);
+    if (!file || used.has(path)) return false;
+    if (file.url) URL.revokeObjectURL(file.url);
+    db.files.delete(path);
+    return true;
+  });
+}
+
+export function createMemoryFileRepository(db: MemoryDatabase): FileRepository {
+  return {
+    upload: async (path, file, { onProgress, signal } = {}) => {
+      signal?.throwIfAborted();
+      if (db.files.has(path)) throw new Error(`A file already exists at "${path}"`);
+      onProgress?.({ loaded: 0, total: file.size });
+      db.files.set(path, { blob: file, url: null });
+      onProgress?.({ loaded: file.size, total: file.size });
+      return path;
+    },
+
+    getUrl: (path) => {
+      const file = db.files.get(path);
+      if (!file) return "";
+      file.url ??= URL.createObjectURL(file.blob);
+      return file.url;
+    },
+
+    removeUnused: async (paths) => removeUnusedFiles(db, paths),
+  };
+}
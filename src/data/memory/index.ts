@@ -0,0 +1,38 @@
+// src/data/memory/index.ts
+import type { Repositories } from "../types";
+import { createMemoryDatabase, type MemorySeed } from "./database";
+import { createMemoryChangeFeed, type MemoryChangeFeed } from "./changeFeed";
+import { createMemoryTaskRepository } from "./taskRepository";
+import { createMemoryEventRepository } from "./eventRepository";
+import { createMemoryMemberRepository } from "./memberRepository";
+import { createMemorySavedViewRepository } from "./savedViewRepository";
+import { createMemoryFileRepository } from "./fileRepository";
+
+// `changes.emit` is exposed so tests can simulate other clients' writes
+export function createMemoryRepositories(
+  seed: MemorySeed = {}
+): Repositories & { changes: MemoryChangeFeed } {
+  const db = createMemoryDatabase(seed);
+  return {
+    tasks: createMemoryTaskRepository(db),
+    events: createMemoryEventRepository(db),
+    members: createMemoryMemberRepository(db),
+    savedViews: createMemorySavedViewRepository(db),
+    files: createMemoryFileRepository(db),
+    changes: db.changes,
+  };
+}
+
+export type { MemorySeed, MemoryDatabase, MemoryFile } from "./database";
+export type { MemoryChangeFeed } from "./changeFeed";
+export { matchesTaskListParams } from "./taskRepository";
+export { matchesEventListParams } from "./eventRepository";
+export {
+  createMemoryDatabase,
+  createMemoryTaskRepository,
+  createMemoryEventRepository,
+  createMemoryMemberRepository,
+  createMemorySavedViewRepository,
+  createMemoryFileRepository,
+  createMemoryChangeFeed,
+};
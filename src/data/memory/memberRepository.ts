@@ -0,0 +1,18 @@
+// src/data/memory/memberRepository.ts
+import type { MemberRepository } from "../types";
+import { orderBy } from "./utils";
+import type { MemoryDatabase } from "./database";
+
+// -----------------------------
+// In-memory Member Adapter
+// -----------------------------
+export function createMemoryMemberRepository(db: MemoryDatabase): MemberRepository {
+  return {
+    listByEvent: async (eventId) =>
+      orderBy(
+        db.members.filter((m) => m.event_id === eventId),
+        "joined_at",
+        true
+      ),
+  };
+}
@@ -0,0 +1,58 @@
+// src/data/memory/predicates.ts
+import type { Predicate } from "../types";
+
+// -----------------------------
+// Predicate Evaluation
+// -----------------------------
+// Mirrors SQL semantics: comparisons against a null column never match.
+export function matchesPredicate<T>(row: T, predicate: Predicate<T>): boolean {
+  switch (predicate.op) {
+    case "and":
+      return predicate.predicates.every((p) => matchesPredicate(row, p));
+    case "or":
+      return predicate.predicates.some((p) => matchesPredicate(row, p));
+    default:
+      break;
+  }
+
+  const value = row[predicate.field] as unknown;
+  const isNull = value === null || value === undefined;
+
+  switch (predicate.op) {
+    case "is":
+      return isNull;
+    case "isNot":
+      return !isNull;
+    case "empty":
+      return isNull || (Array.isArray(value) && value.length === 0);
+    case "contains":
+      return Array.isArray(value) && predicate.value.every((v) => value.includes(v));
+    case "overlaps":
+      return Array.isArray(value) && predicate.value.some((v) => value.includes(v));
+    case "in":
+      return !isNull && predicate.value.includes(value as string | number);
+    default:
+      break;
+  }
+
+  if (isNull) return false;
+  const target = predicate.value;
+  switch (predicate.op) {
+    case "eq":
+      return value === target;
+    case "neq":
+      return value !== target;
+    case "lt":
+      return (value as string | number) < target;
+    case "lte":
+      return (value as string | number) <= target;
+    case "gt":
+      return (value as string | number) > target;
+    case "gte":
+      return (value as string | number) >= target;
+  }
+}
+
+export function matchesAll<T>(row: T, predicates: Predicate<T>[] = []): boolean {
+  return predicates.every((p) => matchesPredicate(row, p));
+}
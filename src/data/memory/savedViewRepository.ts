@@ -0,0 +1,51 @@
+// src/data/memory/savedViewRepository.ts
+import type { SavedView } from "@/stores/useSavedViewStore";
+import type { SavedViewRepository } from "../types";
+import { generateId, orderBy, NotFoundError } from "./utils";
+import type { MemoryDatabase } from "./database";
+
+// -----------------------------
+// In-memory Saved View Adapter
+// -----------------------------
+export function createMemorySavedViewRepository(db: MemoryDatabase): SavedViewRepository {
+  const rows = db.savedViews;
+
+  const find = (id: string) => {
+    const view = rows.get(id);
+    if (!view) throw new NotFoundError("saved_views", id);
+    return view;
+  };
+
+  return {
+    listByEvent: async (eventId) =>
+      orderBy(
+        [...rows.values()].filter((v) => v.scope === "shared" && v.eventId === eventId),
+        "name",
+        true
+      ).map((v) => structuredClone(v)),
+
+    create: async (data) => {
+      const now = new Date().toISOString();
+      const view: SavedView = {
+        ...structuredClone(data),
+        id: generateId(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      rows.set(view.id, view);
+      return structuredClone(view);
+    },
+
+    update: async (id, data) => {
+      const view = { ...find(id), ...structuredClone(data), id, updatedAt: new Date().toISOString() };
+      rows.set(id, view);
+      return structuredClone(view);
+    },
+
+    remove: async (id) => {
+      find(id);
+      rows.delete(id);
+      return id;
+    },
+  };
+}
@@ -0,0 +1,129 @@
+// src/data/memory/taskRepository.ts
+import type { Task } from "@/stores/useTaskStore";
+import type { Event } from "@/stores/useEventStore";
+import type { TaskListParams, TaskRepository } from "../types";
+import { paginate } from "../pagination";
+import { generateId, matchesSearch, compareValues, NotFoundError } from "./utils";
+import type { MemoryDatabase } from "./database";
+import { refreshEventProgress } from "./eventProgress";
+import { assertNoDependencyCycle, refreshBlockedState } from "./blockedState";
+import { removeUnusedFiles } from "./fileRepository";
+import { matchesAll } from "./predicates";
+import { getTaskSortKeys, getTaskSortValue } from "@/features/tasks/taskSort";
+
+// -----------------------------
+// In-memory Task Adapter
+// -----------------------------
+// Whether a task belongs in a list with these params (paging aside). Also
+// used to reconcile cached lists after an optimistic update.
+export function matchesTaskListParams(task: Task, params: TaskListParams): boolean {
+  // Trash
+  if (!!task.deletedAt !== !!params.trashed) return false;
+
+  // Search
+  if (params.search && !matchesSearch(task.title, params.search)) return false;
+
+  // Filter: status / priority
+  if (params.status && !params.status.includes(task.status)) return false;
+  if (params.priority && !params.priority.includes(task.priority)) return false;
+
+  // Filter completed / personal
+  if (params.showCompleted === false && task.status === "Done") return false;
+  if (params.showPersonal === false && task.isPersonal !== false) return false;
+
+  // Extra predicates (quick filters, …)
+  return !params.where?.length || matchesAll(task, params.where);
+}
+
+export function createMemoryTaskRepository(db: MemoryDatabase): TaskRepository {
+  const rows = db.tasks;
+
+  const find = (id: string) => {
+    const task = rows.get(id);
+    if (!task) throw new NotFoundError("tasks", id);
+    return task;
+  };
+
+  // Progress is written to the events table, so those rows change too
+  const emitProgressChanges = (events: Event[]) =>
+    events.forEach((event) => db.changes.emit("events", { type: "update", record: event }));
+
+  // So is `isBlocked` on the tasks a write unblocks (or blocks)
+  const emitBlockedChanges = (tasks: Task[]) =>
+    tasks.forEach((task) => db.changes.emit("tasks", { type: "update", record: task }));
+
+  const update: TaskRepository["update"] = async (id, { isBlocked: _derived, ...data }, options) => {
+    const previous = find(id);
+    if (options?.ifVersion && previous.updatedAt !== options.ifVersion) throw new NotFoundError("tasks", id);
+    if (data.blockedBy?.length) assertNoDependencyCycle(db, id, data.blockedBy);
+    const task = { ...previous, ...data, id, updatedAt: new Date().toISOString() };
+    rows.set(id, task);
+    db.changes.emit("tasks", { type: "update", record: task });
+    emitProgressChanges(refreshEventProgress(db, [previous.eventId, task.eventId]));
+    emitBlockedChanges(refreshBlockedState(db, [id]));
+    return { ...find(id) };
+  };
+
+  return {
+    list: async (params) => {
+      const result = [...rows.values()].filter((t) => matchesTaskListParams(t, params));
+
+      // Sorting
+      const keys = getTaskSortKeys(params.sortBy, params.sortDirection);
+      result.sort((a, b) => {
+        for (const { column, ascending, nullsFirst } of keys) {
+          const order = compareValues(
+            getTaskSortValue(a, column),
+            getTaskSortValue(b, column),
+            ascending,
+            nullsFirst
+          );
+          if (order !== 0) return order;
+        }
+        return 0;
+      });
+
+      return paginate(result, params);
+    },
+
+    getById: async (id) => ({ ...find(id) }),
+
+    // `isBlocked` is derived from the blockers, never written directly
+    create: async ({ isBlocked: _derived, ...data }) => {
+      if (data.id && data.blockedBy?.length) assertNoDependencyCycle(db, data.id, data.blockedBy);
+      const now = new Date().toISOString();
+      const task = {
+        assignees: [],
+        ...data,
+        id: data.id ?? generateId(),
+        createdAt: now,
+        updatedAt: now,
+      } as Task;
+      rows.set(task.id, task);
+      db.changes.emit("tasks", { type: "insert", record: task });
+      emitProgressChanges(refreshEventProgress(db, [task.eventId]));
+      emitBlockedChanges(refreshBlockedState(db, [task.id]));
+      return { ...find(task.id) };
+    },
+
+    update,
+
+    // Every task is looked up first, so a missing one fails the whole move
+    updateBoard: async (updates) => {
+      updates.forEach(({ id }) => find(id));
+      const tasks: Task[] = [];
+      for (const { id, data } of updates) tasks.push(await update(id, data));
+      return tasks;
+    },
+
+    remove: async (id) => {
+      const previous = find(id);
+      rows.delete(id);
+      db.changes.emit("tasks", { type: "delete", id });
+      emitProgressChanges(refreshEventProgress(db, [previous.eventId]));
+      emitBlockedChanges(refreshBlockedState(db, [id]));
+      removeUnusedFiles(db, previous.attachments ?? []);
+      return id;
+    },
+  };
+}
@@ -0,0 +1,45 @@
+// src/data/memory/utils.ts
+
+// -----------------------------
+// In-memory Query Helpers
+// -----------------------------
+export function generateId(): string {
+  return crypto.randomUUID();
+}
+
+// Case-insensitive substring match, mirroring `ilike '%keyword%'`
+export function matchesSearch(value: string | null | undefined, keyword: string): boolean {
+  return (value ?? "").toLowerCase().includes(keyword.toLowerCase());
+}
+
+// Compare two column values the way Postgres orders them: by default nulls
+// sort last when ascending and first when descending (`nullsFirst` overrides).
+export function compareValues(
+  a: unknown,
+  b: unknown,
+  ascending: boolean,
+  nullsFirst = !ascending
+): number {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull && bNull) return 0;
+  if (aNull) return nullsFirst ? -1 : 1;
+  if (bNull) return nullsFirst ? 1 : -1;
+
+  const result =
+    typeof a === "number" && typeof b === "number"
+      ? a - b
+      : String(a).localeCompare(String(b));
+  return ascending ? result : -result;
+}
+
+export function orderBy<T>(rows: T[], field: keyof T, ascending: boolean): T[] {
+  return [...rows].sort((a, b) => compareValues(a[field], b[field], ascending));
+}
+
+export class NotFoundError extends Error {
+  constructor(table: string, id: string) {
+    super(`No row found in "${table}" with id "${id}"`);
+    this.name = "NotFoundError";
+  }
+}
@@ -0,0 +1,70 @@
+// src/data/pagination.ts
+
+// -----------------------------
+// Pagination Types & Helpers
+// -----------------------------
+export const DEFAULT_PAGE_SIZE = 50;
+
+export interface PageParams {
+  page?: number; // 1-based
+  pageSize?: number; // omit to fetch every matching row (up to the backend's row limit, see `listAll`)
+}
+
+export interface ListResult<T> {
+  items: T[];
+  totalCount: number; // exact count of rows matching the filters
+  page: number;
+  pageSize: number | null;
+  nextPage: number | null; // cursor for `useInfiniteQuery`
+}
+
+// Inclusive row range for a page, as expected by `query.range(from, to)`
+export function pageRange(page: number, pageSize: number) {
+  const from = (page - 1) * pageSize;
+  return { from, to: from + pageSize - 1 };
+}
+
+export function toListResult<T>(
+  items: T[],
+  totalCount: number,
+  params: PageParams
+): ListResult<T> {
+  const page = params.page ?? 1;
+  const pageSize = params.pageSize ?? null;
+  const hasMore = pageSize !== null && page * pageSize < totalCount;
+  return { items, totalCount, page, pageSize, nextPage: hasMore ? page + 1 : null };
+}
+
+// Every matching row, a page at a time. One unpaged request would be cut off
+// by the backend's row limit (Supabase `max-rows`, 1000 by default), so the
+// page size stays below it.
+const LIST_ALL_PAGE_SIZE = 500;
+
+export async function listAll<T, P extends PageParams>(
+  list: (params: P) => Promise<ListResult<T>>,
+  params: P
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const result = await list({ ...params, page, pageSize: LIST_ALL_PAGE_SIZE });
+    items.push(...result.items);
+    if (!result.nextPage || !result.items.length) return items;
+  }
+}
+
+// `listAll` as a single unpaged result, for queries cached like any other
+// list (e.g. the calendar)
+export async function listAllResult<T, P extends PageParams>(
+  list: (params: P) => Promise<ListResult<T>>,
+  params: P
+): Promise<ListResult<T>> {
+  const items = await listAll(list, params);
+  return toListResult(items, items.length, params);
+}
+
+// Slice an already filtered/sorted array (in-memory adapters)
+export function paginate<T>(rows: T[], params: PageParams): ListResult<T> {
+  if (!params.pageSize) return toListResult(rows, rows.length, params);
+  const { from, to } = pageRange(params.page ?? 1, params.pageSize);
+  return toListResult(rows.slice(from, to + 1), rows.length, params);
+}
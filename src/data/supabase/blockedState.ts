@@ -0,0 +1,39 @@
+// src/data/supabase/blockedState.ts
+import { supabase } from "@/lib/supabaseClient";
+import type { Task } from "@/stores/useTaskStore";
+import { DependencyCycleError, findDependencyCycle } from "@/features/tasks/taskDependencies";
+
+// -----------------------------
+// Cycle Check
+// -----------------------------
+// The hooks check for cycles against the cache; this repeats the check
+// against the stored rows right before a write. The database trigger (see
+// supabase/migrations) refuses a cycle two clients close at the same time.
+export async function assertNoDependencyCycle(
+  client: typeof supabase,
+  taskId: string,
+  blockedBy: string[]
+) {
+  const stored = new Map<string, string[]>();
+  let frontier = blockedBy;
+
+  while (frontier.length) {
+    const next = [...new Set(frontier)].filter((id) => id !== taskId && !stored.has(id));
+    if (!next.length) break;
+
+    const { data, error } = await client.from("tasks").select("id, blockedBy").in("id", next);
+    if (error) throw error;
+    next.forEach((id) => stored.set(id, []));
+    (data as Task[]).forEach((row) => stored.set(row.id, row.blockedBy ?? []));
+    frontier = next.flatMap((id) => stored.get(id)!);
+  }
+
+  const cycle = findDependencyCycle(taskId, blockedBy, (id) => stored.get(id) ?? []);
+  if (cycle) throw new DependencyCycleError(cycle);
+}
+
+// The trigger's refusal, as the error the hooks already handle (the ids
+// around the loop are unknown here)
+export function toTaskWriteError(error: { hint?: string | null }) {
+  return error.hint === "dependency_cycle" ? new DependencyCycleError([]) : error;
+}
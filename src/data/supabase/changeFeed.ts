@@ -0,0 +1,34 @@
+// src/data/supabase/changeFeed.ts
+import { supabase } from "@/lib/supabaseClient";
+import type { ChangeFeed, ChangeFeedTables, RowChange } from "../types";
+
+// -----------------------------
+// Supabase Change Feed
+// -----------------------------
+// One Realtime channel per subscription, listening to Postgres changes on the
+// table. Deletes only carry the primary key (the default replica identity).
+export function createSupabaseChangeFeed(client = supabase): ChangeFeed {
+  return {
+    subscribe: (table, listener) => {
+      type Row = ChangeFeedTables[typeof table];
+
+      const channel = client
+        .channel(`changes:${table}:${crypto.randomUUID()}`)
+        .on("postgres_changes", { event: "*", schema: "public", table }, (payload) => {
+          const change: RowChange<Row> =
+            payload.eventType === "DELETE"
+              ? { type: "delete", id: (payload.old as Partial<Row>).id! }
+              : {
+                  type: payload.eventType === "INSERT" ? "insert" : "update",
+                  record: payload.new as Row,
+                };
+          listener(change);
+        })
+        .subscribe();
+
+      return () => {
+        void client.removeChannel(channel);
+      };
+    },
+  };
+}
@@ -0,0 +1,129 @@
+// src/data/supabase/eventRepository.ts
+import { supabase } from "@/lib/supabaseClient";
+import type { Event } from "@/stores/useEventStore";
+import type { DateRange, EventRepository, NumberRange } from "../types";
+import { pageRange, toListResult } from "../pagination";
+import { removeUnusedFiles } from "./fileRepository";
+
+// -----------------------------
+// Supabase Event Adapter
+// -----------------------------
+// PostgREST filter for "event overlaps range": the event starts on or before
+// `to` and ends (endDate, or startDate for single-day events) on or after `from`.
+// Repeating events match from their start on; the hooks expand their occurrences.
+function overlapFilter({ from, to }: DateRange): string {
+  const conditions: string[] = [];
+  if (to) conditions.push(`startDate.lte.${to}`);
+  if (from) {
+    conditions.push(`or(endDate.gte.${from},and(endDate.is.null,startDate.gte.${from}))`);
+  }
+  if (!conditions.length) return "id.not.is.null";
+
+  const series = to ? `and(recurrence.not.is.null,startDate.lte.${to})` : "recurrence.not.is.null";
+  return `or(and(${conditions.join(",")}),${series})`;
+}
+
+function progressFilter({ min, max }: NumberRange): string {
+  return `and(progress.gte.${min},progress.lte.${max})`;
+}
+
+export function createSupabaseEventRepository(client = supabase): EventRepository {
+  const getById = async (id: string) => {
+    const { data, error } = await client
+      .from("events")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+    return data as Event;
+  };
+
+  return {
+    list: async (params) => {
+      let query = client.from("events").select("*", { count: "exact" });
+
+      // Trash
+      query = params.trashed ? query.not("deleted_at", "is", null) : query.is("deleted_at", null);
+
+      // Search
+      if (params.search) {
+        query = query.ilike("title", `%${params.search}%`);
+      }
+
+      // "Match any" filters; several groups are ANDed in a single `or` param
+      const anyOf: string[] = [];
+
+      // Filter by progress (label bands, then the numeric range)
+      if (params.progress?.length) {
+        anyOf.push(params.progress.map(progressFilter).join(","));
+      }
+      if (params.progressBetween) {
+        query = query
+          .gte("progress", params.progressBetween.min)
+          .lte("progress", params.progressBetween.max);
+      }
+
+      // Filter by date ranges
+      if (params.dateRanges?.length) {
+        anyOf.push(params.dateRanges.map(overlapFilter).join(","));
+      }
+
+      if (anyOf.length === 1) {
+        query = query.or(anyOf[0]);
+      } else if (anyOf.length > 1) {
+        query = query.or(`and(${anyOf.map((group) => `or(${group})`).join(",")})`);
+      }
+
+      // Sorting
+      if (params.sortBy) {
+        const ascending = params.sortDirection === "asc";
+        query = query.order(params.sortBy, { ascending });
+      }
+
+      // Pagination
+      if (params.pageSize) {
+        const { from, to } = pageRange(params.page ?? 1, params.pageSize);
+        query = query.range(from, to);
+      }
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+      return toListResult(data as Event[], count ?? data.length, params);
+    },
+
+    getById,
+
+    // `progress` is derived from linked tasks by the database, never written
+    // directly; a re-created event (undo, restore) picks up tasks still linked
+    // to its id
+    create: async ({ progress: _derived, ...data }) => {
+      const { data: result, error } = await client
+        .from("events")
+        .insert(data)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return result as Event;
+    },
+
+    update: async (id, { progress: _derived, ...data }, options) => {
+      let query = client.from("events").update(data).eq("id", id);
+      if (options?.ifVersion) query = query.eq("updated_at", options.ifVersion);
+      const { data: result, error } = await query.select().single();
+
+      if (error) throw error;
+      return result as Event;
+    },
+
+    remove: async (id) => {
+      const { data: removed, error } = await client.from("events").delete().eq("id", id).select("coverImage");
+      if (error) throw error;
+      // The row is gone either way; a file left behind only takes up space
+      const files = (removed as Pick<Event, "coverImage">[]).map((row) => row.coverImage);
+      await removeUnusedFiles(client, files).catch(() => []);
+      return id;
+    },
+  };
+}
@@ -0,0 +1,87 @@
+// src/data/supabase/fileRepository.ts
+import { supabase } from "@/lib/supabaseClient";
+import type { Task } from "@/stores/useTaskStore";
+import type { Event } from "@/stores/useEventStore";
+import type { FileRepository, UploadOptions } from "../types";
+import { isStoredFile } from "@/features/uploads/uploads";
+
+// -----------------------------
+// Supabase Storage Adapter
+// -----------------------------
+// One public bucket; tasks and events keep their files under "tasks/" and
+// "events/". Image thumbnails use Supabase's image transformations.
+export const STORAGE_BUCKET = "uploads";
+
+// supabase-js uploads with `fetch`, which reports no progress. A signed
+// upload URL takes the same request from XMLHttpRequest instead.
+function putFile(url: string, file: Blob, { onProgress, signal }: UploadOptions): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.upload.onprogress = (e) =>
+      onProgress?.({ loaded: e.loaded, total: e.lengthComputable ? e.total : file.size });
+    xhr.onload = () =>
+      xhr.status < 300 ? resolve() : reject(new Error(`Upload failed (${xhr.status}): ${xhr.responseText}`));
+    xhr.onerror = () => reject(new TypeError("Failed to fetch")); // see isNetworkError
+    xhr.onabort = () => reject(new DOMException("The upload was aborted", "AbortError"));
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+
+    const body = new FormData();
+    body.append("cacheControl", "3600");
+    body.append("", file);
+    xhr.send(body);
+  });
+}
+
+// Deletes the files in `refs` no task or event refers to any more. The task
+// and event adapters call this after removing a row.
+export async function removeUnusedFiles(
+  client: typeof supabase,
+  refs: (string | null | undefined)[]
+): Promise<string[]> {
+  const paths = [...new Set(refs.filter(isStoredFile))];
+  if (!paths.length) return [];
+
+  // Quoted array literal: paths saved before names were slugged (see
+  // `toStoragePath`) may hold commas, quotes or braces
+  const pathArray = `{${paths.map((path) => `"${path.replace(/["\\]/g, "\\$&")}"`).join(",")}}`;
+  const [tasks, events] = await Promise.all([
+    client.from("tasks").select("attachments").filter("attachments", "ov", pathArray),
+    client.from("events").select("coverImage").in("coverImage", paths),
+  ]);
+  if (tasks.error) throw tasks.error;
+  if (events.error) throw events.error;
+
+  const used = new Set<string | null | undefined>([
+    ...(tasks.data as Pick<Task, "attachments">[]).flatMap((task) => task.attachments ?? []),
+    ...(events.data as Pick<Event, "coverImage">[]).map((event) => event.coverImage),
+  ]);
+  const unused = paths.filter((path) => !used.has(path));
+  if (!unused.length) return [];
+
+  const { error } = await client.storage.from(STORAGE_BUCKET).remove(unused);
+  if (error) throw error;
+  return unused;
+}
+
+export function createSupabaseFileRepository(client = supabase): FileRepository {
+  const bucket = () => client.storage.from(STORAGE_BUCKET);
+
+  return {
+    upload: async (path, file, options = {}) => {
+      options.signal?.throwIfAborted();
+      const { data, error } = await bucket().createSignedUploadUrl(path);
+      if (error) throw error;
+      await putFile(data.signedUrl, file, options);
+      return data.path;
+    },
+
+    getUrl: (path, { width, height } = {}) => {
+      const transform = width || height ? { width, height, resize: "contain" as const } : undefined;
+      return bucket().getPublicUrl(path, transform && { transform }).data.publicUrl;
+    },
+
+    removeUnused: (paths) => removeUnusedFiles(client, paths),
+  };
+}
@@ -0,0 +1,29 @@
+// src/data/supabase/index.ts
+import { supabase } from "@/lib/supabaseClient";
+import type { Repositories } from "../types";
+import { createSupabaseTaskRepository } from "./taskRepository";
+import { createSupabaseEventRepository } from "./eventRepository";
+import { createSupabaseMemberRepository } from "./memberRepository";
+import { createSupabaseSavedViewRepository } from "./savedViewRepository";
+import { createSupabaseFileRepository } from "./fileRepository";
+import { createSupabaseChangeFeed } from "./changeFeed";
+
+export function createSupabaseRepositories(client = supabase): Repositories {
+  return {
+    tasks: createSupabaseTaskRepository(client),
+    events: createSupabaseEventRepository(client),
+    members: createSupabaseMemberRepository(client),
+    savedViews: createSupabaseSavedViewRepository(client),
+    files: createSupabaseFileRepository(client),
+    changes: createSupabaseChangeFeed(client),
+  };
+}
+
+export {
+  createSupabaseTaskRepository,
+  createSupabaseEventRepository,
+  createSupabaseMemberRepository,
+  createSupabaseSavedViewRepository,
+  createSupabaseFileRepository,
+  createSupabaseChangeFeed,
+};
@@ -0,0 +1,22 @@
+// src/data/supabase/memberRepository.ts
+import { supabase } from "@/lib/supabaseClient";
+import type { Member } from "@/stores/useMemberStore";
+import type { MemberRepository } from "../types";
+
+// -----------------------------
+// Supabase Member Adapter
+// -----------------------------
+export function createSupabaseMemberRepository(client = supabase): MemberRepository {
+  return {
+    listByEvent: async (eventId) => {
+      const { data, error } = await client
+        .from("members")
+        .select("*")
+        .eq("event_id", eventId)
+        .order("joined_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as Member[];
+    },
+  };
+}
@@ -0,0 +1,100 @@
+// src/data/supabase/predicates.ts
+import type { Predicate } from "../types";
+
+// -----------------------------
+// Predicate -> PostgREST Filters
+// -----------------------------
+type AnyPredicate = Predicate<Record<string, unknown>>;
+type Leaf = Exclude<AnyPredicate, { op: "and" | "or" } | { op: "empty" }>;
+
+interface FilterableQuery<Q> {
+  filter: (column: string, operator: string, value: unknown) => Q;
+  or: (filters: string) => Q;
+}
+
+const OPERATORS: Record<Leaf["op"], string> = {
+  eq: "eq",
+  neq: "neq",
+  lt: "lt",
+  lte: "lte",
+  gt: "gt",
+  gte: "gte",
+  in: "in",
+  is: "is",
+  isNot: "not.is",
+  contains: "cs",
+  overlaps: "ov",
+};
+
+function isLeaf(predicate: AnyPredicate): predicate is Leaf {
+  return predicate.op !== "and" && predicate.op !== "or" && predicate.op !== "empty";
+}
+
+// Quote values that contain PostgREST reserved characters
+function quote(value: string | number | boolean): string {
+  const text = String(value);
+  return /[,.:()"\\\s{}]/.test(text) ? `"${text.replace(/(["\\])/g, "\\$1")}"` : text;
+}
+
+// List members are always quoted: PostgREST strips the quotes inside
+// `in.(…)`, and `{…}` is a Postgres array literal. Single values are only
+// quoted inside `or(…)` / `and(…)` groups; as a top-level query param the
+// quotes would be compared as part of the value.
+function leafValue(predicate: Leaf, grouped: boolean): string {
+  switch (predicate.op) {
+    case "in":
+      return `(${predicate.value.map(quote).join(",")})`;
+    case "contains":
+    case "overlaps":
+      return `{${predicate.value.map(quote).join(",")}}`;
+    case "is":
+    case "isNot":
+      return "null";
+    default:
+      return grouped ? quote(predicate.value) : String(predicate.value);
+  }
+}
+
+// Serialize for use inside `or(...)` / `and(...)` groups
+export function toFilterString<T>(predicate: Predicate<T>): string {
+  return serialize(predicate as AnyPredicate);
+}
+
+function serialize(predicate: AnyPredicate): string {
+  switch (predicate.op) {
+    case "and":
+    case "or":
+      // An empty group is vacuously true for `and`, false for `or`
+      if (predicate.predicates.length === 0) {
+        return predicate.op === "and" ? "id.not.is.null" : "id.is.null";
+      }
+      return `${predicate.op}(${predicate.predicates.map(serialize).join(",")})`;
+    case "empty":
+      return `or(${predicate.field}.is.null,${predicate.field}.eq.{})`;
+    default:
+      return `${predicate.field}.${OPERATORS[predicate.op]}.${leafValue(predicate, true)}`;
+  }
+}
+
+// Apply predicates (ANDed). Plain comparisons become query params; grouped
+// ones are combined into a single `or=(and(...))` so they never clobber
+// each other.
+export function applyPredicates<Q extends FilterableQuery<Q>, T>(
+  query: Q,
+  predicates: Predicate<T>[]
+): Q {
+  const groups: string[] = [];
+
+  for (const predicate of predicates as AnyPredicate[]) {
+    if (isLeaf(predicate)) {
+      query = query.filter(predicate.field, OPERATORS[predicate.op], leafValue(predicate, false));
+    } else {
+      groups.push(serialize(predicate));
+    }
+  }
+
+  if (groups.length) {
+    query = query.or(`and(${groups.join(",")})`);
+  }
+  return query;
+}
@@ -0,0 +1,54 @@
+// src/data/supabase/savedViewRepository.ts
+import { supabase } from "@/lib/supabaseClient";
+import type { SavedView } from "@/stores/useSavedViewStore";
+import type { SavedViewRepository } from "../types";
+
+// -----------------------------
+// Supabase Saved View Adapter
+// -----------------------------
+// `view` and `advancedFilters` are jsonb columns; row-level security
+// limits reads to the event's members.
+export function createSupabaseSavedViewRepository(client = supabase): SavedViewRepository {
+  return {
+    listByEvent: async (eventId) => {
+      const { data, error } = await client
+        .from("saved_views")
+        .select("*")
+        .eq("eventId", eventId)
+        .eq("scope", "shared")
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as SavedView[];
+    },
+
+    create: async (data) => {
+      const { data: result, error } = await client
+        .from("saved_views")
+        .insert(data)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return result as SavedView;
+    },
+
+    update: async (id, data) => {
+      const { data: result, error } = await client
+        .from("saved_views")
+        .update({ ...data, updatedAt: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return result as SavedView;
+    },
+
+    remove: async (id) => {
+      const { error } = await client.from("saved_views").delete().eq("id", id);
+      if (error) throw error;
+      return id;
+    },
+  };
+}
@@ -0,0 +1,120 @@
+// src/data/supabase/taskRepository.ts
+import { supabase } from "@/lib/supabaseClient";
+import type { Task } from "@/stores/useTaskStore";
+import type { TaskRepository } from "../types";
+import { pageRange, toListResult } from "../pagination";
+import { assertNoDependencyCycle, toTaskWriteError } from "./blockedState";
+import { removeUnusedFiles } from "./fileRepository";
+import { applyPredicates } from "./predicates";
+import { getTaskSortKeys } from "@/features/tasks/taskSort";
+
+// -----------------------------
+// Supabase Task Adapter
+// -----------------------------
+// The rank columns used for sorting are generated by the database from
+// priority/status (see supabase/migrations). Rows read back carry them, so they
+// are dropped before a row is written again (undo, restore).
+type RankedTask = Partial<Task> & { priorityRank?: number; statusRank?: number };
+
+function withoutRanks({ priorityRank: _priority, statusRank: _status, ...data }: RankedTask) {
+  return data;
+}
+
+// `events.progress` and `tasks.isBlocked` are kept in step by database
+// triggers (see supabase/migrations), so no write here touches events or
+// the tasks a write unblocks. Rows come back with the flag already set.
+export function createSupabaseTaskRepository(client = supabase): TaskRepository {
+  return {
+    list: async (params) => {
+      let query = client.from("tasks").select("*", { count: "exact" });
+
+      // Trash
+      query = params.trashed ? query.not("deletedAt", "is", null) : query.is("deletedAt", null);
+
+      // Search
+      if (params.search) {
+        query = query.ilike("title", `%${params.search}%`);
+      }
+
+      // Filter: status / priority
+      if (params.status) {
+        query = query.in("status", params.status);
+      }
+      if (params.priority) {
+        query = query.in("priority", params.priority);
+      }
+
+      // Filter completed / personal
+      if (params.showCompleted === false) {
+        query = query.neq("status", "Done");
+      }
+      if (params.showPersonal === false) {
+        query = query.eq("isPersonal", false);
+      }
+
+      // Extra predicates (quick filters, …)
+      if (params.where?.length) {
+        query = applyPredicates(query, params.where);
+      }
+
+      // Sorting
+      for (const { column, ascending, nullsFirst } of getTaskSortKeys(
+        params.sortBy,
+        params.sortDirection
+      )) {
+        query = query.order(column, { ascending, nullsFirst });
+      }
+
+      // Pagination
+      if (params.pageSize) {
+        const { from, to } = pageRange(params.page ?? 1, params.pageSize);
+        query = query.range(from, to);
+      }
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+      return toListResult(data as Task[], count ?? data.length, params);
+    },
+
+    getById: async (id) => {
+      const { data, error } = await client.from("tasks").select("*").eq("id", id).single();
+      if (error) throw error;
+      return data as Task;
+    },
+
+    // `isBlocked` is derived from the blockers, never written directly
+    create: async ({ isBlocked: _derived, ...data }) => {
+      // Only a re-created task (undo, restore) can already be someone's blocker
+      if (data.id && data.blockedBy?.length) await assertNoDependencyCycle(client, data.id, data.blockedBy);
+      const { data: result, error } = await client.from("tasks").insert(withoutRanks(data)).select().single();
+      if (error) throw toTaskWriteError(error);
+      return result as Task;
+    },
+
+    update: async (id, { isBlocked: _derived, ...data }, options) => {
+      if (data.blockedBy?.length) await assertNoDependencyCycle(client, id, data.blockedBy);
+      let query = client.from("tasks").update(withoutRanks(data)).eq("id", id);
+      if (options?.ifVersion) query = query.eq("updatedAt", options.ifVersion);
+      const { data: result, error } = await query.select().single();
+      if (error) throw toTaskWriteError(error);
+      return result as Task;
+    },
+
+    // One database function call, so a move with a renumbered column is
+    // written completely or not at all (see supabase/migrations)
+    updateBoard: async (updates) => {
+      const { data, error } = await client.rpc("update_task_board", { updates });
+      if (error) throw error;
+      return data as Task[];
+    },
+
+    remove: async (id) => {
+      const { data: removed, error } = await client.from("tasks").delete().eq("id", id).select("attachments");
+      if (error) throw error;
+      // The row is gone either way; a file left behind only takes up space
+      const files = (removed as Pick<Task, "attachments">[]).flatMap((row) => row.attachments ?? []);
+      await removeUnusedFiles(client, files).catch(() => []);
+      return id;
+    },
+  };
+}
@@ -0,0 +1,167 @@
+// src/data/types.ts
+import type { Task, TaskStoreState } from "@/stores/useTaskStore";
+import type { Event } from "@/stores/useEventStore";
+import type { Member } from "@/stores/useMemberStore";
+import type { SavedView } from "@/stores/useSavedViewStore";
+import type { PageParams, ListResult } from "./pagination";
+
+// -----------------------------
+// Query Parameters
+// -----------------------------
+// Inclusive calendar-date range ("YYYY-MM-DD"); an open end is unbounded
+export interface DateRange {
+  from?: string | null;
+  to?: string | null;
+}
+
+// Inclusive numeric range
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+// Backend-neutral filter on a row of type `T`. Adapters translate it
+// (PostgREST filters for Supabase, plain JS for the in-memory adapter).
+// As in SQL, comparisons never match a null column; use `is` / `isNot`.
+export type Predicate<T> =
+  | {
+      field: keyof T & string;
+      op: "eq" | "neq" | "lt" | "lte" | "gt" | "gte";
+      value: string | number | boolean;
+    }
+  | { field: keyof T & string; op: "in"; value: (string | number)[] }
+  | { field: keyof T & string; op: "is" | "isNot"; value: null }
+  | { field: keyof T & string; op: "contains" | "overlaps"; value: string[] } // array columns
+  | { field: keyof T & string; op: "empty" } // null or empty array
+  | { op: "and" | "or"; predicates: Predicate<T>[] };
+
+export type TaskPredicate = Predicate<Task>;
+
+export interface TaskListParams extends PageParams {
+  search?: string;
+  sortBy?: TaskStoreState["taskSortBy"];
+  sortDirection?: "asc" | "desc";
+  status?: Task["status"][];
+  priority?: Task["priority"][];
+  showCompleted?: boolean;
+  showPersonal?: boolean;
+  where?: TaskPredicate[]; // extra predicates, ANDed (quick filters, …)
+  trashed?: boolean; // only tasks in the trash; otherwise they are left out
+}
+
+export interface EventListParams extends PageParams {
+  search?: string;
+  sortBy?: string;
+  sortDirection?: "asc" | "desc";
+  progress?: NumberRange[]; // match events whose progress is in any band
+  progressBetween?: NumberRange | null;
+  dateRanges?: DateRange[]; // match events overlapping any of the ranges
+  trashed?: boolean; // only events in the trash; otherwise they are left out
+}
+
+// -----------------------------
+// Repository Interfaces
+// -----------------------------
+export interface UpdateOptions {
+  // Only update while the row still has this version (`updatedAt` /
+  // `updated_at`); otherwise nothing is written and `update` throws a
+  // not-found error (see `isNotFoundError`)
+  ifVersion?: string;
+}
+
+// One task's part of a board move: the grouped field and its manual rank
+export interface TaskBoardUpdate {
+  id: string;
+  data: Partial<Pick<Task, "status" | "priority" | "assignees" | "boardRanks">>;
+}
+
+export interface TaskRepository {
+  list: (params: TaskListParams) => Promise<ListResult<Task>>;
+  getById: (id: string) => Promise<Task>;
+  create: (data: Partial<Task>) => Promise<Task>;
+  update: (id: string, data: Partial<Task>, options?: UpdateOptions) => Promise<Task>;
+  updateBoard: (updates: TaskBoardUpdate[]) => Promise<Task[]>; // all in one request, or none
+  remove: (id: string) => Promise<string>;
+}
+
+export interface EventRepository {
+  list: (params: EventListParams) => Promise<ListResult<Event>>;
+  getById: (id: string) => Promise<Event>;
+  create: (data: Partial<Event>) => Promise<Event>;
+  update: (id: string, data: Partial<Event>, options?: UpdateOptions) => Promise<Event>;
+  remove: (id: string) => Promise<string>;
+}
+
+export interface MemberRepository {
+  listByEvent: (eventId: string) => Promise<Member[]>;
+}
+
+// Shared saved views only; personal views stay in the browser
+export interface SavedViewRepository {
+  listByEvent: (eventId: string) => Promise<SavedView[]>;
+  create: (data: Omit<SavedView, "id">) => Promise<SavedView>;
+  update: (id: string, data: Partial<SavedView>) => Promise<SavedView>;
+  remove: (id: string) => Promise<string>;
+}
+
+// -----------------------------
+// File Storage
+// -----------------------------
+// Task attachments and event covers. Files are addressed by their path in
+// storage ("tasks/<folder>/report.pdf"), which is what rows store. Paths
+// may be shared: a task occurrence split off its series keeps the files.
+export interface UploadProgress {
+  loaded: number; // bytes
+  total: number;
+}
+
+export interface UploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+// A resized copy of an image (thumbnails); ignored for other files
+export interface FileUrlOptions {
+  width?: number;
+  height?: number;
+}
+
+export interface FileRepository {
+  upload: (path: string, file: Blob, options?: UploadOptions) => Promise<string>;
+  getUrl: (path: string, options?: FileUrlOptions) => string;
+  // Deletes the files no task or event refers to; returns the deleted paths
+  removeUnused: (paths: string[]) => Promise<string[]>;
+}
+
+// -----------------------------
+// Change Feed (realtime)
+// -----------------------------
+// Rows written by anyone (including this client) are pushed to subscribers.
+export type RowChange<T extends { id: string }> =
+  | { type: "insert" | "update"; record: T }
+  | { type: "delete"; id: string };
+
+export interface ChangeFeedTables {
+  tasks: Task;
+  events: Event;
+  members: Member;
+}
+
+export type ChangeFeedTable = keyof ChangeFeedTables;
+
+export interface ChangeFeed {
+  // Returns an unsubscribe function
+  subscribe: <K extends ChangeFeedTable>(
+    table: K,
+    listener: (change: RowChange<ChangeFeedTables[K]>) => void
+  ) => () => void;
+}
+
+export interface Repositories {
+  tasks: TaskRepository;
+  events: EventRepository;
+  members: MemberRepository;
+  savedViews: SavedViewRepository;
+  files: FileRepository;
+  changes: ChangeFeed;
+}
@@ -0,0 +1,276 @@
+// src/features/calendar/calendarItems.ts
+import type { Task } from "@/stores/useTaskStore";
+import type { Event } from "@/stores/useEventStore";
+import type { TaskPredicate } from "@/data";
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  daysBetween,
+  eachDay,
+  endOfMonth,
+  minutesBetween,
+  startOfMonth,
+  startOfWeek,
+  type WeekStart,
+} from "@/lib/dates";
+import { expandOccurrences } from "@/features/recurrence/recurrence";
+
+// -----------------------------
+// Calendar Ranges
+// -----------------------------
+export type CalendarView = "day" | "week" | "month";
+
+export interface CalendarRange {
+  from: string; // "YYYY-MM-DD", inclusive
+  to: string;
+}
+
+// Month ranges cover whole weeks, as shown in a month grid
+export function getCalendarRange(
+  view: CalendarView,
+  date: string,
+  weekStartsOn: WeekStart
+): CalendarRange {
+  switch (view) {
+    case "day":
+      return { from: date, to: date };
+    case "week": {
+      const from = startOfWeek(date, weekStartsOn);
+      return { from, to: addDays(from, 6) };
+    }
+    case "month":
+      return {
+        from: startOfWeek(startOfMonth(date), weekStartsOn),
+        to: addDays(startOfWeek(endOfMonth(date), weekStartsOn), 6),
+      };
+  }
+}
+
+// The date `steps` days / weeks / months away, for previous / next buttons
+export function shiftCalendarDate(view: CalendarView, date: string, steps: number): string {
+  switch (view) {
+    case "day":
+      return addDays(date, steps);
+    case "week":
+      return addDays(date, steps * 7);
+    case "month":
+      return addMonths(date, steps);
+  }
+}
+
+// Tasks with a due date or a schedule overlapping the range, and repeating
+// tasks that start before its end. Compared as "YYYY-MM-DD" prefixes like
+// the quick filters.
+export function getCalendarTaskPredicate({ from, to }: CalendarRange): TaskPredicate {
+  const toExclusive = addDays(to, 1);
+  return {
+    op: "or",
+    predicates: [
+      {
+        op: "and",
+        predicates: [
+          { field: "recurrence", op: "isNot", value: null },
+          {
+            op: "or",
+            predicates: [
+              { field: "dueDate", op: "lt", value: toExclusive },
+              { field: "scheduleStart", op: "lt", value: toExclusive },
+            ],
+          },
+        ],
+      },
+      {
+        op: "and",
+        predicates: [
+          { field: "dueDate", op: "gte", value: from },
+          { field: "dueDate", op: "lt", value: toExclusive },
+        ],
+      },
+      {
+        op: "and",
+        predicates: [
+          { field: "isScheduled", op: "eq", value: true },
+          { field: "scheduleStart", op: "lt", value: toExclusive },
+          {
+            op: "or",
+            predicates: [
+              { field: "scheduleEnd", op: "gte", value: from },
+              { field: "scheduleStart", op: "gte", value: from },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+// -----------------------------
+// Calendar Items
+// -----------------------------
+// One entry on the calendar. A task can show up twice: once for its
+// schedule and once on its due date.
+interface CalendarItemBase {
+  key: string; // unique within a range, e.g. "due:<task id>" or "due:<task id>@<occurrence date>"
+  title: string;
+  allDay: boolean;
+  start: string; // "YYYY-MM-DD" when all-day, else "YYYY-MM-DDTHH:mm"
+  end: string; // last day (inclusive) when all-day, else the end time
+}
+
+export type CalendarItem =
+  | (CalendarItemBase & { kind: "event"; event: Event })
+  | (CalendarItemBase & { kind: "schedule" | "due"; task: Task });
+
+// Occurrences of a series share its id
+function itemKey(kind: CalendarItem["kind"], record: Task | Event) {
+  return record.recurrence && record.occurrenceDate
+    ? `${kind}:${record.id}@${record.occurrenceDate}`
+    : `${kind}:${record.id}`;
+}
+
+// Multi-day events and events without a start time are all-day
+function toEventItem(event: Event): CalendarItem {
+  const startDate = event.startDate.slice(0, 10);
+  const base = { kind: "event" as const, key: itemKey("event", event), title: event.title, event };
+
+  if (event.isMultiDay || !event.startTime) {
+    const endDate = event.isMultiDay && event.endDate ? event.endDate.slice(0, 10) : startDate;
+    return { ...base, allDay: true, start: startDate, end: endDate < startDate ? startDate : endDate };
+  }
+
+  const start = `${startDate}T${event.startTime.slice(0, 5)}`;
+  const end = event.endTime ? `${startDate}T${event.endTime.slice(0, 5)}` : start;
+  return { ...base, allDay: false, start, end: end < start ? start : end };
+}
+
+// A schedule given as dates only is all-day
+function toScheduleItem(task: Task): CalendarItem | null {
+  if (!task.isScheduled || !task.scheduleStart) return null;
+
+  const allDay = task.scheduleStart.length <= 10;
+  const length = allDay ? 10 : 16;
+  const start = task.scheduleStart.slice(0, length);
+  const end = task.scheduleEnd?.slice(0, length) ?? start;
+  return {
+    kind: "schedule",
+    key: itemKey("schedule", task),
+    title: task.title,
+    task,
+    allDay,
+    start,
+    end: end < start ? start : end,
+  };
+}
+
+function toDueItem(task: Task): CalendarItem | null {
+  if (!task.dueDate) return null;
+  const date = task.dueDate.slice(0, 10);
+  return { kind: "due", key: itemKey("due", task), title: task.title, task, allDay: true, start: date, end: date };
+}
+
+const firstDay = (item: CalendarItem) => item.start.slice(0, 10);
+const lastDay = (item: CalendarItem) => item.end.slice(0, 10);
+
+function overlaps(item: CalendarItem, { from, to }: CalendarRange) {
+  return firstDay(item) <= to && lastDay(item) >= from;
+}
+
+// Items overlapping the range, in start order (all-day first on each day).
+// Repeating tasks and events show up once per occurrence.
+export function buildCalendarItems(
+  events: Event[],
+  tasks: Task[],
+  range: CalendarRange
+): CalendarItem[] {
+  const items = [
+    ...events.flatMap((event) => expandOccurrences("events", event, range)).map(toEventItem),
+    ...tasks
+      .flatMap((task) => expandOccurrences("tasks", task, range))
+      .flatMap((task) => [toScheduleItem(task), toDueItem(task)]),
+  ].filter((item): item is CalendarItem => !!item && overlaps(item, range));
+
+  return items.sort(
+    (a, b) => a.start.localeCompare(b.start) || a.title.localeCompare(b.title)
+  );
+}
+
+// Every day of the range with the items touching it (multi-day items on
+// each of their days)
+export function groupItemsByDay(
+  items: CalendarItem[],
+  { from, to }: CalendarRange
+): { date: string; items: CalendarItem[] }[] {
+  return eachDay(from, to).map((date) => ({
+    date,
+    items: items.filter((item) => firstDay(item) <= date && lastDay(item) >= date),
+  }));
+}
+
+// -----------------------------
+// Rescheduling
+// -----------------------------
+// Where an item was dropped. `time` ("HH:mm") is set for time-grid slots;
+// month cells and all-day rows only give a date.
+export interface CalendarSlot {
+  date: string;
+  time?: string | null;
+}
+
+export type CalendarReschedule =
+  | { table: "events"; id: string; data: Partial<Event> }
+  | { table: "tasks"; id: string; data: Partial<Task> };
+
+// The write that moves `item` to `slot`, keeping its duration. All-day
+// items move by whole days; timed items keep their time unless dropped on
+// a time slot. Null when nothing would change.
+export function getRescheduleChange(
+  item: CalendarItem,
+  slot: CalendarSlot
+): CalendarReschedule | null {
+  let start: string;
+  let end: string;
+  if (item.allDay) {
+    const days = daysBetween(item.start, slot.date);
+    start = slot.date;
+    end = addDays(item.end, days);
+  } else {
+    start = slot.time ? `${slot.date}T${slot.time.slice(0, 5)}` : `${slot.date}${item.start.slice(10)}`;
+    end = addMinutes(item.end, minutesBetween(item.start, start));
+  }
+  if (start === item.start) return null;
+
+  switch (item.kind) {
+    case "event": {
+      const { event } = item;
+      if (item.allDay) {
+        return {
+          table: "events",
+          id: event.id,
+          data: { startDate: start, ...(event.isMultiDay && { endDate: end }) },
+        };
+      }
+      // A timed event pushed past midnight becomes a multi-day event
+      const endDate = end.slice(0, 10);
+      return {
+        table: "events",
+        id: event.id,
+        data: {
+          startDate: start.slice(0, 10),
+          startTime: start.slice(11),
+          ...(event.endTime && { endTime: end.slice(11) }),
+          ...(endDate !== start.slice(0, 10) && { isMultiDay: true, endDate }),
+        },
+      };
+    }
+    case "schedule":
+      return {
+        table: "tasks",
+        id: item.task.id,
+        data: { scheduleStart: start, ...(item.task.scheduleEnd && { scheduleEnd: end }) },
+      };
+    case "due":
+      // Keep a time part if the due date has one
+      return { table: "tasks", id: item.task.id, data: { dueDate: `${start}${item.task.dueDate!.slice(10)}` } };
+  }
+}
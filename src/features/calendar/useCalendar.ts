@@ -0,0 +1,82 @@
+// src/features/calendar/useCalendar.ts
+import { useCallback, useMemo } from "react";
+import { todayInTimeZone } from "@/lib/dates";
+import { useUiStore } from "@/stores/useUiStore";
+import { useCalendarTasks, useRescheduleTask } from "@/stores/useTaskStore";
+import { useCalendarEvents, useRescheduleEvent } from "@/stores/useEventStore";
+import { useEditOccurrence } from "@/features/recurrence/useOccurrenceMutations";
+import {
+  buildCalendarItems,
+  getCalendarRange,
+  getRescheduleChange,
+  groupItemsByDay,
+  type CalendarItem,
+  type CalendarSlot,
+  type CalendarView,
+} from "./calendarItems";
+
+// -----------------------------
+// Calendar Data
+// -----------------------------
+// Events, scheduled tasks and due dates for the day / week / month around
+// `date` (default: today in the user's time zone), grouped by day.
+// `reschedule` moves an item to the slot it was dropped on; for an
+// occurrence of a repeating task or event, only that occurrence moves.
+export function useCalendar({ view, date }: { view: CalendarView; date?: string }) {
+  const weekStartsOn = useUiStore((s) => s.weekStartsOn);
+  const timeZone = useUiStore((s) => s.timeZone);
+  const anchor = date ?? todayInTimeZone(timeZone);
+  const range = useMemo(
+    () => getCalendarRange(view, anchor, weekStartsOn),
+    [view, anchor, weekStartsOn]
+  );
+
+  const eventsQuery = useCalendarEvents(range);
+  const tasksQuery = useCalendarTasks(range);
+  const rescheduleEvent = useRescheduleEvent();
+  const rescheduleTask = useRescheduleTask();
+  const editEventOccurrence = useEditOccurrence("events");
+  const editTaskOccurrence = useEditOccurrence("tasks");
+
+  const events = eventsQuery.data?.items;
+  const tasks = tasksQuery.data?.items;
+  const items = useMemo(
+    () => buildCalendarItems(events ?? [], tasks ?? [], range),
+    [events, tasks, range]
+  );
+  const days = useMemo(() => groupItemsByDay(items, range), [items, range]);
+
+  const { mutate: mutateEvent } = rescheduleEvent;
+  const { mutate: mutateTask } = rescheduleTask;
+  const { mutate: mutateEventOccurrence } = editEventOccurrence;
+  const { mutate: mutateTaskOccurrence } = editTaskOccurrence;
+  const reschedule = useCallback(
+    (item: CalendarItem, slot: CalendarSlot) => {
+      const change = getRescheduleChange(item, slot);
+      if (!change) return;
+
+      const record = item.kind === "event" ? item.event : item.task;
+      if (record.recurrence && record.occurrenceDate) {
+        const target = { id: change.id, occurrenceDate: record.occurrenceDate, scope: "this" as const };
+        if (change.table === "events") mutateEventOccurrence({ ...target, data: change.data });
+        else mutateTaskOccurrence({ ...target, data: change.data });
+      } else if (change.table === "events") mutateEvent(change);
+      else mutateTask(change);
+    },
+    [mutateEvent, mutateTask, mutateEventOccurrence, mutateTaskOccurrence]
+  );
+
+  return {
+    range,
+    items,
+    days,
+    isLoading: eventsQuery.isLoading || tasksQuery.isLoading,
+    isError: eventsQuery.isError || tasksQuery.isError,
+    reschedule,
+    isRescheduling:
+      rescheduleEvent.isPending ||
+      rescheduleTask.isPending ||
+      editEventOccurrence.isPending ||
+      editTaskOccurrence.isPending,
+  };
+}
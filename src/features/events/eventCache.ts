@@ -0,0 +1,104 @@
+// src/features/events/eventCache.ts
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import type { Event } from "@/stores/useEventStore";
+import { matchesEventListParams, type EventListParams } from "@/data";
+import {
+  findInList,
+  getListParams,
+  insertIntoList,
+  removeFromList,
+  replaceInList,
+  type ListCacheData,
+} from "@/lib/listCache";
+
+// -----------------------------
+// Cached Event Queries
+// -----------------------------
+//   ["events", params]             ListResult<Event>           (useFetchEvents)
+//   ["events", "infinite", params] InfiniteData<ListResult>    (useInfiniteEvents)
+//   ["event", id]                  Event                       (useFetchEvent)
+type EventListData = ListCacheData<Event>;
+
+// A cached event, from its detail entry or any loaded list
+export function findCachedEvent(queryClient: QueryClient, id: string): Event | undefined {
+  const detail = queryClient.getQueryData<Event | null>(["event", id]);
+  if (detail) return detail;
+
+  for (const [, data] of queryClient.getQueriesData<EventListData>({ queryKey: ["events"] })) {
+    const event = data && findInList(data, id);
+    if (event) return event;
+  }
+  return undefined;
+}
+
+export interface EventCacheSnapshot {
+  entries: [QueryKey, unknown][];
+}
+
+// Counterparts of `snapshotTaskCache` / `restoreTaskCache`
+export async function snapshotEventCache(
+  queryClient: QueryClient,
+  id: string
+): Promise<EventCacheSnapshot> {
+  await Promise.all([
+    queryClient.cancelQueries({ queryKey: ["events"] }),
+    queryClient.cancelQueries({ queryKey: ["event", id], exact: true }),
+  ]);
+  return {
+    entries: [
+      ...queryClient.getQueriesData({ queryKey: ["events"] }),
+      [["event", id], queryClient.getQueryData(["event", id])],
+    ],
+  };
+}
+
+export function restoreEventCache(queryClient: QueryClient, snapshot: EventCacheSnapshot) {
+  snapshot.entries.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+}
+
+// Same contract as `writeTaskToCache`: patch in place where possible and
+// return the lists that must be refetched (row would move or newly appear).
+export function writeEventToCache(queryClient: QueryClient, event: Event): QueryKey[] {
+  const stale: QueryKey[] = [];
+
+  if (queryClient.getQueryData(["event", event.id])) {
+    queryClient.setQueryData(["event", event.id], event);
+  }
+
+  for (const [queryKey, data] of queryClient.getQueriesData<EventListData>({ queryKey: ["events"] })) {
+    if (!data) continue;
+
+    const params = getListParams<EventListParams>(queryKey);
+    const cached = findInList(data, event.id);
+    const matches = matchesEventListParams(event, params);
+    const sortBy = params.sortBy as keyof Event | undefined;
+
+    if (!cached) {
+      if (matches) stale.push(queryKey);
+    } else if (!matches) {
+      queryClient.setQueryData(queryKey, removeFromList(data, event.id));
+    } else {
+      queryClient.setQueryData(queryKey, replaceInList(data, event));
+      if (sortBy && cached[sortBy] !== event[sortBy]) stale.push(queryKey);
+    }
+  }
+
+  return stale;
+}
+
+// Counterpart of `addTaskToCache` for events queued offline
+export function addEventToCache(queryClient: QueryClient, event: Event) {
+  for (const [queryKey, data] of queryClient.getQueriesData<EventListData>({ queryKey: ["events"] })) {
+    if (data && matchesEventListParams(event, getListParams<EventListParams>(queryKey))) {
+      queryClient.setQueryData(queryKey, insertIntoList(data, event));
+    }
+  }
+}
+
+export function removeEventFromCache(queryClient: QueryClient, id: string) {
+  queryClient.removeQueries({ queryKey: ["event", id], exact: true });
+
+  for (const [queryKey, data] of queryClient.getQueriesData<EventListData>({ queryKey: ["events"] })) {
+    if (data) queryClient.setQueryData(queryKey, removeFromList(data, id));
+  }
+}
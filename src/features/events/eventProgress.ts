@@ -0,0 +1,41 @@
+// src/features/events/eventProgress.ts
+import type { Task } from "@/stores/useTaskStore";
+
+// -----------------------------
+// Event Progress
+// -----------------------------
+// `Event.progress` is the percentage of the event's linked tasks that are
+// "Done". The named states used by the progress filter are fixed bands of
+// that number, so filtering/sorting by label and by value always agree.
+export type EventProgressLabel = "Not Started" | "In Progress" | "Completed";
+
+export const EVENT_PROGRESS_LABELS: EventProgressLabel[] = [
+  "Not Started",
+  "In Progress",
+  "Completed",
+];
+
+// Inclusive bands: nothing done, partly done, everything done
+export const EVENT_PROGRESS_THRESHOLDS: Record<
+  EventProgressLabel,
+  { min: number; max: number }
+> = {
+  "Not Started": { min: 0, max: 0 },
+  "In Progress": { min: 1, max: 99 },
+  Completed: { min: 100, max: 100 },
+};
+
+// Rounds into 1..99 while work is partial, so the label never overstates
+// (e.g. 199/200 done is 99%, not 100%) or understates (1/300 done is 1%).
+export function computeEventProgress(tasks: Pick<Task, "status">[]): number {
+  const done = tasks.filter((t) => t.status === "Done").length;
+  if (done === 0) return 0;
+  if (done === tasks.length) return 100;
+  return Math.min(99, Math.max(1, Math.round((done / tasks.length) * 100)));
+}
+
+export function getEventProgressLabel(progress: number): EventProgressLabel {
+  if (progress <= EVENT_PROGRESS_THRESHOLDS["Not Started"].max) return "Not Started";
+  if (progress >= EVENT_PROGRESS_THRESHOLDS.Completed.min) return "Completed";
+  return "In Progress";
+}
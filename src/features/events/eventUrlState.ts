@@ -0,0 +1,114 @@
+// src/features/events/eventUrlState.ts
+import {
+  useEventStore,
+  DEFAULT_EVENT_FILTERS,
+  type EventDateBucket,
+  type EventStoreState,
+} from "@/stores/useEventStore";
+import type { EventProgressLabel } from "./eventProgress";
+import type { NumberRange } from "@/data";
+import {
+  createValueCodes,
+  decodeList,
+  encodeList,
+  useUrlStateSync,
+  type UrlStateCodec,
+} from "@/lib/urlState";
+
+// -----------------------------
+// URL Codes
+// -----------------------------
+// Columns the events list may be sorted by
+const SORT_CODES = createValueCodes({
+  startDate: "start",
+  endDate: "end",
+  title: "title",
+  location: "location",
+  progress: "progress",
+  created_at: "created",
+  updated_at: "updated",
+});
+
+const DIRECTION_CODES = createValueCodes<"asc" | "desc">({ asc: "asc", desc: "desc" });
+
+const PROGRESS_CODES = createValueCodes<EventProgressLabel>({
+  "Not Started": "not-started",
+  "In Progress": "in-progress",
+  Completed: "completed",
+});
+
+const DATE_CODES = createValueCodes<EventDateBucket>({
+  Past: "past",
+  "This Week": "week",
+  "This Month": "month",
+  Future: "future",
+});
+
+// "25-75" <-> { min: 25, max: 75 }; anything outside 0-100 is dropped
+function encodeRange(range: NumberRange | null): string | undefined {
+  return range ? `${range.min}-${range.max}` : undefined;
+}
+
+function decodeRange(raw: string | null): NumberRange | null {
+  const match = raw?.match(/^(\d{1,3})-(\d{1,3})$/);
+  if (!match) return null;
+
+  const [min, max] = [Number(match[1]), Number(match[2])];
+  return min <= max && max <= 100 ? { min, max } : null;
+}
+
+// -----------------------------
+// Event List Codec
+// -----------------------------
+// Keys are prefixed with "e" so task and event params can share one URL,
+// e.g. ?eq=summit&eprogress=in-progress&erange=25-75&edate=week,month
+export const eventUrlCodec: UrlStateCodec<EventStoreState> = {
+  fields: {
+    eq: "searchKeyword",
+    esort: "eventSortBy",
+    edir: "eventSortDirection",
+    eprogress: "filterByProgress",
+    erange: "filterByProgressValue",
+    edate: "filterByDate",
+    event: "selectedEventId",
+  },
+  replaceKeys: ["eq"],
+
+  encode: (state) => {
+    const defaults = DEFAULT_EVENT_FILTERS;
+    const sortBy = SORT_CODES.values.find((value) => value === state.eventSortBy);
+    return {
+      eq: state.searchKeyword || undefined,
+      esort:
+        !sortBy || state.eventSortBy === defaults.eventSortBy
+          ? undefined
+          : SORT_CODES.encode(sortBy),
+      edir:
+        state.eventSortDirection === defaults.eventSortDirection
+          ? undefined
+          : DIRECTION_CODES.encode(state.eventSortDirection),
+      eprogress: encodeList(state.filterByProgress, PROGRESS_CODES, defaults.filterByProgress),
+      erange: encodeRange(state.filterByProgressValue),
+      edate: encodeList(state.filterByDate, DATE_CODES, defaults.filterByDate),
+      event: state.selectedEventId ?? undefined,
+    };
+  },
+
+  decode: (params) => {
+    const defaults = DEFAULT_EVENT_FILTERS;
+    return {
+      searchKeyword: params.get("eq") ?? "",
+      eventSortBy: SORT_CODES.decode(params.get("esort")) ?? defaults.eventSortBy,
+      eventSortDirection: DIRECTION_CODES.decode(params.get("edir")) ?? defaults.eventSortDirection,
+      filterByProgress: decodeList(params.get("eprogress"), PROGRESS_CODES, defaults.filterByProgress),
+      filterByProgressValue: decodeRange(params.get("erange")),
+      filterByDate: decodeList(params.get("edate"), DATE_CODES, defaults.filterByDate),
+      selectedEventId: params.get("event") || null,
+    };
+  },
+};
+
+// Mount once on the Events page
+export function useEventUrlSync() {
+  useUrlStateSync(useEventStore, eventUrlCodec);
+}
@@ -1,6 +1,6 @@
 // src/features/events/forms/EventForm.tsx
-import React, { useEffect } from "react";
-import { useForm } from "react-hook-form";
+import React, { useEffect, useMemo, useState } from "react";
+import { useForm, Controller } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { toast } from "react-hot-toast";
@@ -12,6 +12,15 @@ import { Textarea } from "@/components/ui/Textarea";
 import { Checkbox } from "@/components/ui/Checkbox";
 import { MultiSelect } from "@/components/ui/MultiSelect";
 import { useMembers } from "@/stores/useMemberStore";
+import { useRemoteChange } from "@/stores/useRealtimeStore";
+import { usePendingSync } from "@/stores/useOfflineQueueStore";
+import { useEditOccurrence } from "@/features/recurrence/useOccurrenceMutations";
+import { OccurrenceScopeField, RecurrenceFields } from "@/features/recurrence/RecurrenceFields";
+import { recurrenceSchema } from "@/features/recurrence/recurrenceSchema";
+import { getOccurrence, type OccurrenceScope } from "@/features/recurrence/recurrence";
+import { useFileUploads } from "@/features/uploads/useFileUploads";
+import { CoverImageField } from "@/features/uploads/UploadFields";
+import { coverImageFileSchema, COVER_IMAGE_TYPES } from "./eventSchema";
 
 // Zod schema with error messages
 export const eventSchema = z
@@ -25,8 +34,9 @@ export const eventSchema = z
     startTime: z.string().min(1, { message: "Start time is required" }),
     endTime: z.string().min(1, { message: "End time is required" }),
     color: z.string().optional(),
-    coverImage: z.string().optional(),
+    coverImage: z.string().optional(), // path in file storage, or a link
     participants: z.array(z.string()).optional(),
+    recurrence: recurrenceSchema,
   })
   .refine(
     (data) => {
@@ -41,15 +51,35 @@ export type EventFormData = z.infer<typeof eventSchema>;
 interface EventFormProps {
   eventId?: string | null;
   mode?: "create" | "edit";
+  occurrenceDate?: string | null; // editing one occurrence of a repeating event
   onSuccess?: () => void;
 }
 
-export const EventForm: React.FC<EventFormProps> = ({ eventId, mode = "create", onSuccess }) => {
+export const EventForm: React.FC<EventFormProps> = ({ eventId, mode = "create", occurrenceDate, onSuccess }) => {
   const closeModal = useUiStore((s) => s.closeAllModals);
 
-  const { data: eventData } = useFetchEvent(eventId);
+  const { data: seriesData } = useFetchEvent(eventId);
   const createMutation = useCreateEvent();
   const updateMutation = useUpdateEvent();
+  const occurrenceMutation = useEditOccurrence("events");
+
+  // Which occurrences an edit of a repeating event applies to; the form
+  // shows the dates of the occurrence being edited
+  const isOccurrence = mode === "edit" && !!occurrenceDate && !!seriesData?.recurrence;
+  const [scope, setScope] = useState<OccurrenceScope>("this");
+  const eventData = useMemo(
+    () => (seriesData && isOccurrence ? getOccurrence("events", seriesData, occurrenceDate!) : seriesData),
+    [seriesData, isOccurrence, occurrenceDate]
+  );
+
+  // Flag edits/deletes of this event made by someone else while the form is open
+  const { change: remoteChange, acknowledge: acknowledgeRemoteChange } = useRemoteChange(
+    "events",
+    mode === "edit" ? eventId : null
+  );
+
+  // Changes to this event made offline and not synced yet
+  const offlineSync = usePendingSync("events", mode === "edit" ? eventId : null);
 
   const { data: members, isLoading, isError } = useMembers(eventId);
   const memberOptions = members?.map((member) => ({ label: member.name, value: member.id })) || [];
@@ -68,14 +98,27 @@ export const EventForm: React.FC<EventFormProps> = ({ eventId, mode = "create",
       color: "#3B82F6",
       coverImage: "",
       participants: [],
+      recurrence: null,
     },
   });
 
-  const { register, handleSubmit, watch, reset, formState: { errors, isSubmitting } } = form;
+  const { register, handleSubmit, watch, reset, formState: { errors, isSubmitting, isDirty } } = form;
   const isMultiDay = watch("isMultiDay");
 
+  // The image is uploaded as soon as it is picked and replaces the current one
+  const coverUploads = useFileUploads({
+    folder: "events",
+    schema: coverImageFileSchema,
+    onUploaded: (path) => {
+      const previous = form.getValues("coverImage");
+      if (previous) coverUploads.release(previous);
+      form.setValue("coverImage", path, { shouldDirty: true });
+    },
+  });
+
+  // Live updates refresh the form only until the user starts editing
   useEffect(() => {
-    if (eventData && mode === "edit") {
+    if (eventData && mode === "edit" && !isDirty) {
       reset({
         title: eventData.title ?? "",
         description: eventData.description ?? "",
@@ -88,21 +131,31 @@ export const EventForm: React.FC<EventFormProps> = ({ eventId, mode = "create",
         color: eventData.color ?? "#3B82F6",
         coverImage: eventData.coverImage ?? "",
         participants: eventData.participants ?? [],
+        recurrence: eventData.recurrence ?? null,
       });
     }
-  }, [eventData, mode, reset]);
+  }, [eventData, mode, reset, isDirty]);
 
-  const isDisabled = isSubmitting || createMutation.isPending || updateMutation.isPending;
+  const isDisabled =
+    isSubmitting || createMutation.isPending || updateMutation.isPending || occurrenceMutation.isPending;
 
   const onSubmit = async (data: EventFormData) => {
+    if (coverUploads.isUploading) {
+      toast.error("Wait for the cover image to finish uploading");
+      return;
+    }
     try {
-      if (mode === "edit" && eventId) {
+      if (isOccurrence && eventId) {
+        await occurrenceMutation.mutateAsync({ id: eventId, occurrenceDate: occurrenceDate!, scope, data });
+        toast.success("Event updated successfully");
+      } else if (mode === "edit" && eventId) {
         await updateMutation.mutateAsync({ id: eventId, data });
         toast.success("Event updated successfully");
       } else {
         await createMutation.mutateAsync(data);
         toast.success("Event created successfully");
       }
+      coverUploads.commit();
       closeModal();
       onSuccess?.();
     } catch (err) {
@@ -113,6 +166,41 @@ export const EventForm: React.FC<EventFormProps> = ({ eventId, mode = "create",
 
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 p-4 bg-white rounded-2xl">
+      {/* Offline changes that conflict with newer data */}
+      {offlineSync.conflict ? (
+        <div className="flex items-center justify-between gap-3 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">
+          <span>
+            {offlineSync.conflict.reason === "changed"
+              ? "Your offline changes to this event conflict with newer changes."
+              : offlineSync.conflict.reason === "deleted"
+              ? "This event was deleted before your offline changes could sync."
+              : "Your offline changes to this event could not be saved."}
+          </span>
+          <div className="flex gap-2">
+            {offlineSync.conflict.reason !== "deleted" && (
+              <Button type="button" variant="secondary" onClick={() => offlineSync.resolve("mine")}>Keep mine</Button>
+            )}
+            <Button type="button" variant="secondary" onClick={() => offlineSync.resolve("theirs")}>Discard mine</Button>
+          </div>
+        </div>
+      ) : (
+        offlineSync.isPending && (
+          <p className="rounded-md bg-gray-50 p-2 text-sm text-gray-600">Changes to this event are waiting to sync.</p>
+        )
+      )}
+
+      {/* Changed by someone else */}
+      {remoteChange && (
+        <div className="flex items-center justify-between gap-3 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+          <span>
+            {remoteChange.type === "delete"
+              ? "This event was deleted by someone else."
+              : "This event was changed by someone else. Saving will overwrite their changes."}
+          </span>
+          <Button variant="secondary" type="button" onClick={acknowledgeRemoteChange}>Dismiss</Button>
+        </div>
+      )}
+
       {/* Title */}
       <div>
         <label className="block text-sm font-medium mb-1">Event Title *</label>
@@ -162,6 +250,20 @@ export const EventForm: React.FC<EventFormProps> = ({ eventId, mode = "create",
         </div>
       </div>
 
+      {/* Repeat; a single occurrence cannot repeat on its own */}
+      {!(isOccurrence && scope === "this") && (
+        <div>
+          <Controller
+            name="recurrence"
+            control={form.control}
+            render={({ field }) => (
+              <RecurrenceFields value={field.value} onChange={field.onChange} disabled={isDisabled} />
+            )}
+          />
+          {errors.recurrence && <p className="text-red-500 text-sm">{errors.recurrence.message}</p>}
+        </div>
+      )}
+
       {/* Description */}
       <div>
         <label className="block text-sm font-medium mb-1">Description</label>
@@ -177,7 +279,19 @@ export const EventForm: React.FC<EventFormProps> = ({ eventId, mode = "create",
       {/* Cover Image */}
       <div>
         <label className="block text-sm font-medium mb-1">Cover Image</label>
-        <Input {...register("coverImage")} placeholder="Image URL (optional)" disabled={isDisabled} />
+        <Controller
+          name="coverImage"
+          control={form.control}
+          render={({ field }) => (
+            <CoverImageField
+              value={field.value}
+              onChange={field.onChange}
+              uploads={coverUploads}
+              accept={COVER_IMAGE_TYPES}
+              disabled={isDisabled}
+            />
+          )}
+        />
       </div>
 
       {/* Participants */}
@@ -198,6 +312,9 @@ export const EventForm: React.FC<EventFormProps> = ({ eventId, mode = "create",
         )}
       </div>
 
+      {/* Edit scope for one occurrence of a repeating event */}
+      {isOccurrence && <OccurrenceScopeField value={scope} onChange={setScope} disabled={isDisabled} />}
+
       {/* Actions */}
       <div className="flex justify-end gap-2 pt-4">
         <Button variant="secondary" type="button" onClick={closeModal} disabled={isDisabled}>Cancel</Button>
@@ -1,5 +1,13 @@
 // src/features/events/forms/eventSchema.ts
 import { z } from "zod";
+import { recurrenceSchema } from "@/features/recurrence/recurrenceSchema";
+import { fileSchema } from "@/features/uploads/fileSchema";
+
+// Cover images, checked before they are uploaded
+export const COVER_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+export const MAX_COVER_IMAGE_SIZE = 5 * 1024 * 1024; // 5 MB
+
+export const coverImageFileSchema = fileSchema(COVER_IMAGE_TYPES, MAX_COVER_IMAGE_SIZE);
 
 export const eventSchema = z
   .object({
@@ -32,11 +40,12 @@ export const eventSchema = z
       .regex(/^([0-1]\d|2[0-3]):([0-5]\d)$/, "Invalid time format (HH:mm)"),
     color: z
       .string()
-      .optional()
       .regex(/^#([0-9A-F]{3}){1,2}$/i, "Invalid color code")
+      .optional()
       .default("#3B82F6"),
-    coverImage: z.string().optional().nullable(),
+    coverImage: z.string().optional().nullable(), // path in file storage, or a link
     participants: z.array(z.string()).optional(),
+    recurrence: recurrenceSchema,
   })
   .refine(
     (data) => {
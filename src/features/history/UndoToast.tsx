@@ -0,0 +1,37 @@
+// src/features/history/UndoToast.tsx
+import React from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+
+const UNDO_TOAST_DURATION_MS = 6000;
+
+// Only the newest change can be undone from a toast, so undo toasts share
+// one id and a new one replaces the previous
+const UNDO_TOAST_ID = "undo";
+
+// Success toast with an Undo action; dismissed as soon as it is used
+export function showUndoToast(message: string, onUndo: () => void) {
+  toast.success(
+    (t) => (
+      <span className="flex items-center gap-3">
+        {message}
+        <Button
+          type="button"
+          variant="link"
+          className="h-auto p-0"
+          onClick={() => {
+            toast.dismiss(t.id);
+            onUndo();
+          }}
+        >
+          Undo
+        </Button>
+      </span>
+    ),
+    { id: UNDO_TOAST_ID, duration: UNDO_TOAST_DURATION_MS }
+  );
+}
+
+export function dismissUndoToast() {
+  toast.dismiss(UNDO_TOAST_ID);
+}
@@ -0,0 +1,67 @@
+// src/features/history/useUndoRedo.ts
+import { useEffect } from "react";
+import { useCreateTask, usePurgeTask, useUpdateTask } from "@/stores/useTaskStore";
+import { useCreateEvent, usePurgeEvent, useUpdateEvent } from "@/stores/useEventStore";
+import { setHistoryApplier, useUndoStore, type HistoryOperation } from "@/stores/useUndoStore";
+
+// Native text undo wins inside editable fields
+function isEditableTarget(target: EventTarget | null) {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName));
+}
+
+// Mount once inside the QueryClientProvider. Applies undo/redo through the
+// regular mutation hooks (optimistic cache updates, offline queue, realtime
+// echo suppression) and binds Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y.
+// Trashing is an update; a "delete" only ever undoes a create, so it purges.
+export function useUndoRedo() {
+  const { mutateAsync: createTask } = useCreateTask();
+  const { mutateAsync: updateTask } = useUpdateTask();
+  const { mutateAsync: purgeTask } = usePurgeTask();
+  const { mutateAsync: createEvent } = useCreateEvent();
+  const { mutateAsync: updateEvent } = useUpdateEvent();
+  const { mutateAsync: purgeEvent } = usePurgeEvent();
+
+  useEffect(() => {
+    setHistoryApplier((operation: HistoryOperation) => {
+      if (operation.table === "tasks") {
+        switch (operation.type) {
+          case "create":
+            return createTask(operation.record);
+          case "update":
+            return updateTask({ id: operation.id, data: operation.data });
+          case "delete":
+            return purgeTask(operation.id);
+        }
+      }
+      switch (operation.type) {
+        case "create":
+          return createEvent(operation.record);
+        case "update":
+          return updateEvent({ id: operation.id, data: operation.data });
+        case "delete":
+          return purgeEvent(operation.id);
+      }
+    });
+    return () => setHistoryApplier(null);
+  }, [createTask, updateTask, purgeTask, createEvent, updateEvent, purgeEvent]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      const { undo, redo } = useUndoStore.getState();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+}
@@ -0,0 +1,179 @@
+// src/features/ical/ical.ts
+
+// -----------------------------
+// iCalendar Text (RFC 5545)
+// -----------------------------
+// Components and properties as plain data; the mapping to events and tasks
+// lives in icalEvents.ts.
+export interface ICalProperty {
+  name: string; // upper case, e.g. "DTSTART"
+  params: Record<string, string>; // e.g. { VALUE: "DATE" }
+  value: string; // raw, still escaped for TEXT values
+}
+
+export interface ICalComponent {
+  name: string; // "VCALENDAR", "VEVENT", …
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+const CRLF = "\r\n";
+const MAX_LINE_OCTETS = 75;
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  let folded = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      folded += `${CRLF} `;
+      octets = 1;
+    }
+    folded += char;
+    octets += size;
+  }
+  return folded;
+}
+
+function formatParam(value: string): string {
+  return /[:;,]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+}
+
+function formatProperty({ name, params, value }: ICalProperty): string {
+  const paramText = Object.entries(params)
+    .map(([key, paramValue]) => `;${key}=${formatParam(paramValue)}`)
+    .join("");
+  return foldLine(`${name}${paramText}:${value}`);
+}
+
+function formatComponent({ name, properties, components }: ICalComponent): string[] {
+  return [
+    `BEGIN:${name}`,
+    ...properties.map(formatProperty),
+    ...components.flatMap(formatComponent),
+    `END:${name}`,
+  ];
+}
+
+export function formatICalendar(calendar: ICalComponent): string {
+  return formatComponent(calendar).join(CRLF) + CRLF;
+}
+
+// "NAME;PARAM=value;PARAM="quoted:value":VALUE"; null for lines without a
+// name and a colon
+function parseLine(line: string): ICalProperty | null {
+  const match = line.match(/^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:]*)(?:,(?:"[^"]*"|[^";:]*))*)*):(.*)$/);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of match[2].matchAll(/;([A-Za-z0-9-]+)=((?:"[^"]*"|[^";:]*)(?:,(?:"[^"]*"|[^";:]*))*)/g)) {
+    params[param[1].toUpperCase()] = param[2].replace(/"/g, "");
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+}
+
+// Top-level components of the text (normally one VCALENDAR). Lines that
+// cannot be parsed and unterminated components are skipped.
+export function parseICalendar(text: string): ICalComponent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of lines) {
+    const property = parseLine(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      stack.push({ name: property.value.trim().toUpperCase(), properties: [], components: [] });
+    } else if (property.name === "END") {
+      const component = stack.pop();
+      if (!component) continue;
+      (stack.length ? stack[stack.length - 1].components : roots).push(component);
+    } else if (stack.length) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+  return roots;
+}
+
+export function getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+export function getProperties(component: ICalComponent, name: string): ICalProperty[] {
+  return component.properties.filter((property) => property.name === name);
+}
+
+// Every component named `name`, at any depth
+export function findComponents(components: ICalComponent[], name: string): ICalComponent[] {
+  return components.flatMap((component) => [
+    ...(component.name === name ? [component] : []),
+    ...findComponents(component.components, name),
+  ]);
+}
+
+// -----------------------------
+// Date & Time Values
+// -----------------------------
+// DATE ("20261020") or DATE-TIME ("20261020T090000", "…Z" for UTC) values
+export interface ICalDateValue {
+  date: string; // "YYYY-MM-DD"
+  time: string | null; // "HH:mm"; null for DATE values
+  utc: boolean;
+  tzid: string | null; // TZID parameter
+}
+
+export function parseDateValue(value: string, params: Record<string, string> = {}): ICalDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{0,2}(Z?))?$/i);
+  if (!match) return null;
+  return {
+    date: `${match[1]}-${match[2]}-${match[3]}`,
+    time: match[4] ? `${match[4]}:${match[5]}` : null,
+    utc: !!match[6],
+    tzid: params.TZID ?? null,
+  };
+}
+
+// "YYYY-MM-DD" → "YYYYMMDD"
+export function formatDateValue(date: string): string {
+  return date.slice(0, 10).replace(/-/g, "");
+}
+
+// "YYYY-MM-DDTHH:mm" (wall clock) → "YYYYMMDDTHHmm00"
+export function formatDateTimeValue(dateTime: string): string {
+  return `${formatDateValue(dateTime)}T${dateTime.slice(11, 16).replace(":", "")}00`;
+}
+
+// An instant as a UTC DATE-TIME, e.g. for DTSTAMP
+export function formatUtcValue(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+}
+
+// DURATION values ("PT1H30M", "P1D", "-P1W") in minutes; null if malformed
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total =
+    Number(weeks ?? 0) * 7 * 24 * 60 +
+    Number(days ?? 0) * 24 * 60 +
+    Number(hours ?? 0) * 60 +
+    Number(minutes ?? 0);
+  return sign === "-" ? -total : total;
+}
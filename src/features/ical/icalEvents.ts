@@ -0,0 +1,381 @@
+// src/features/ical/icalEvents.ts
+import type { Event } from "@/stores/useEventStore";
+import type { Task } from "@/stores/useTaskStore";
+import type { Member } from "@/stores/useMemberStore";
+import { eventSchema, type EventFormValues } from "@/features/events/forms/eventSchema";
+import { expandOccurrences, getSeriesStart, parseRecurrence } from "@/features/recurrence/recurrence";
+import {
+  addDays,
+  addMinutes,
+  daysBetween,
+  fromDateTimeInTimeZone,
+  toDateTimeInTimeZone,
+} from "@/lib/dates";
+import {
+  escapeText,
+  findComponents,
+  formatDateTimeValue,
+  formatDateValue,
+  formatUtcValue,
+  getProperties,
+  getProperty,
+  parseDateValue,
+  parseDuration,
+  parseICalendar,
+  unescapeText,
+  type ICalComponent,
+  type ICalDateValue,
+  type ICalProperty,
+} from "./ical";
+
+// -----------------------------
+// Export
+// -----------------------------
+// Times are written as floating wall-clock times, the way they are stored,
+// and the calendar names the user's time zone in X-WR-TIMEZONE.
+const PRODID = "-//JAS39 Planner//Planner//EN";
+const UID_DOMAIN = "jas39-planner";
+
+const prop = (name: string, value: string, params: Record<string, string> = {}): ICalProperty => ({
+  name,
+  params,
+  value,
+});
+
+const textProp = (name: string, value: string | null | undefined) =>
+  value ? [prop(name, escapeText(value))] : [];
+
+// DTSTART / DTEND for an all-day span (`last` inclusive; DTEND is exclusive)
+function allDayProps(first: string, last: string): ICalProperty[] {
+  return [
+    prop("DTSTART", formatDateValue(first), { VALUE: "DATE" }),
+    prop("DTEND", formatDateValue(addDays(last < first ? first : last, 1)), { VALUE: "DATE" }),
+  ];
+}
+
+function timedProps(start: string, end: string | null): ICalProperty[] {
+  return [
+    prop("DTSTART", formatDateTimeValue(start)),
+    ...(end && end > start ? [prop("DTEND", formatDateTimeValue(end))] : []),
+  ];
+}
+
+// RRULE plus EXDATE for removed occurrences, at the series' start time.
+// `days` moves the exception dates when DTSTART is not the series start.
+function recurrenceProps(
+  rule: string | null | undefined,
+  exceptions: string[] | null | undefined,
+  time: string | null,
+  days = 0
+): ICalProperty[] {
+  if (!rule) return [];
+  const dates = (exceptions ?? []).map((date) => addDays(date, days));
+  return [
+    prop("RRULE", rule.replace(/^RRULE:/i, "")),
+    ...(dates.length
+      ? [
+          time
+            ? prop("EXDATE", dates.map((date) => formatDateTimeValue(`${date}T${time}`)).join(","))
+            : prop("EXDATE", dates.map(formatDateValue).join(","), { VALUE: "DATE" }),
+        ]
+      : []),
+  ];
+}
+
+// Participants with an email address become attendees
+function attendeeProps(participants: string[] | undefined, members: Member[]): ICalProperty[] {
+  return (participants ?? []).flatMap((id) => {
+    const member = members.find((m) => m.id === id);
+    return member?.email
+      ? [prop("ATTENDEE", `mailto:${member.email}`, { CN: member.name, ROLE: "REQ-PARTICIPANT" })]
+      : [];
+  });
+}
+
+// Events without a start time are all-day
+export function eventToVEvent(event: Event, members: Member[], now: Date): ICalComponent {
+  const startDate = event.startDate.slice(0, 10);
+  const lastDate = event.isMultiDay && event.endDate ? event.endDate.slice(0, 10) : startDate;
+  const startTime = event.startTime?.slice(0, 5) ?? null;
+
+  return {
+    name: "VEVENT",
+    properties: [
+      prop("UID", `${event.id}@${UID_DOMAIN}`),
+      prop("DTSTAMP", formatUtcValue(now)),
+      ...(startTime
+        ? timedProps(
+            `${startDate}T${startTime}`,
+            event.endTime ? `${lastDate}T${event.endTime.slice(0, 5)}` : null
+          )
+        : allDayProps(startDate, lastDate)),
+      ...recurrenceProps(event.recurrence, event.recurrenceExceptions, startTime),
+      ...textProp("SUMMARY", event.title),
+      ...textProp("DESCRIPTION", event.description),
+      ...textProp("LOCATION", event.location),
+      ...attendeeProps(event.participants, members),
+    ],
+    components: [],
+  };
+}
+
+// Only scheduled tasks are exported; a schedule given as dates only is all-day
+export function taskToVEvent(task: Task, now: Date): ICalComponent | null {
+  if (!task.isScheduled || !task.scheduleStart) return null;
+
+  const allDay = task.scheduleStart.length <= 10;
+  const length = allDay ? 10 : 16;
+  const start = task.scheduleStart.slice(0, length);
+  const end = task.scheduleEnd?.slice(0, length) ?? null;
+  const seriesStart = getSeriesStart("tasks", task);
+
+  return {
+    name: "VEVENT",
+    properties: [
+      prop("UID", `task-${task.id}@${UID_DOMAIN}`),
+      prop("DTSTAMP", formatUtcValue(now)),
+      ...(allDay ? allDayProps(start, end ?? start) : timedProps(start, end)),
+      ...recurrenceProps(
+        task.recurrence,
+        task.recurrenceExceptions,
+        allDay ? null : start.slice(11),
+        seriesStart ? daysBetween(seriesStart, start) : 0
+      ),
+      ...textProp("SUMMARY", task.title),
+      ...textProp("DESCRIPTION", task.description),
+      prop("CATEGORIES", "Task"),
+    ],
+    components: [],
+  };
+}
+
+export function buildICalendar(vevents: ICalComponent[], timeZone: string): ICalComponent {
+  return {
+    name: "VCALENDAR",
+    properties: [
+      prop("VERSION", "2.0"),
+      prop("PRODID", PRODID),
+      prop("CALSCALE", "GREGORIAN"),
+      prop("METHOD", "PUBLISH"),
+      prop("X-WR-TIMEZONE", timeZone),
+    ],
+    components: vevents,
+  };
+}
+
+// -----------------------------
+// Import
+// -----------------------------
+// Each VEVENT becomes event form values, validated with `eventSchema`.
+// Times are converted to the user's time zone; all-day events get
+// 00:00–23:59, as the form requires times.
+export interface ImportedEvent {
+  uid: string | null;
+  title: string; // as in the file, for the preview
+  values: EventFormValues | null; // null when invalid
+  errors: string[];
+  recurrenceExceptions: string[];
+  attendees: { name: string | null; email: string }[];
+}
+
+interface ImportContext {
+  timeZone: string; // the user's
+  members?: Member[]; // attendees matched by email become participants
+}
+
+// Wall-clock date-time in `timeZone` for a DATE-TIME value. Unknown TZIDs
+// (e.g. Windows zone names) are read as floating times.
+function toLocalDateTime(value: ICalDateValue, timeZone: string, defaultZone: string | null) {
+  const dateTime = `${value.date}T${value.time}`;
+  try {
+    if (value.utc) return toDateTimeInTimeZone(new Date(`${dateTime}:00Z`), timeZone);
+    const zone = value.tzid ?? defaultZone;
+    if (zone && zone !== timeZone) {
+      return toDateTimeInTimeZone(fromDateTimeInTimeZone(dateTime, zone), timeZone);
+    }
+  } catch {
+    // RangeError: unknown time zone
+  }
+  return dateTime;
+}
+
+function readDate(property: ICalProperty | undefined) {
+  return property ? parseDateValue(property.value, property.params) : null;
+}
+
+// Start / end as "YYYY-MM-DD" (all-day, end inclusive) or wall-clock
+// date-times; null without a usable DTSTART
+function readSpan(vevent: ICalComponent, timeZone: string, defaultZone: string | null) {
+  const start = readDate(getProperty(vevent, "DTSTART"));
+  if (!start) return null;
+  const end = readDate(getProperty(vevent, "DTEND"));
+  const duration = getProperty(vevent, "DURATION");
+  const minutes = duration ? parseDuration(duration.value) : null;
+
+  if (!start.time) {
+    // DTEND is exclusive; no DTEND means a single day
+    const last = end
+      ? addDays(end.date, -1)
+      : minutes
+      ? addDays(start.date, Math.ceil(minutes / (24 * 60)) - 1)
+      : start.date;
+    return { allDay: true, start: start.date, end: last < start.date ? start.date : last };
+  }
+
+  const from = toLocalDateTime(start, timeZone, defaultZone);
+  const to =
+    end?.time != null
+      ? toLocalDateTime(end, timeZone, defaultZone)
+      : minutes != null
+      ? addMinutes(from, minutes)
+      : from;
+  return { allDay: false, start: from, end: to };
+}
+
+function readExceptions(vevent: ICalComponent, timeZone: string, defaultZone: string | null) {
+  return getProperties(vevent, "EXDATE").flatMap((property) =>
+    property.value
+      .split(",")
+      .map((value) => parseDateValue(value, property.params))
+      .filter((value): value is ICalDateValue => !!value)
+      .map((value) => (value.time ? toLocalDateTime(value, timeZone, defaultZone).slice(0, 10) : value.date))
+  );
+}
+
+function readAttendees(vevent: ICalComponent) {
+  return getProperties(vevent, "ATTENDEE")
+    .map(({ params, value }) => ({
+      name: params.CN ?? null,
+      email: value.replace(/^mailto:/i, "").trim().toLowerCase(),
+    }))
+    .filter(({ email }) => email.includes("@"));
+}
+
+// The repeat rule, or why it cannot be imported. Rules this app cannot
+// repeat the same way (see `parseRecurrence`), extra dates (RDATE) and
+// several rules are reported rather than imported as a simpler series.
+function readRecurrence(vevent: ICalComponent): { rule: string | null; error: string | null } {
+  const rules = getProperties(vevent, "RRULE");
+  if (getProperties(vevent, "RDATE").length) return { rule: null, error: "Extra dates (RDATE) are not supported" };
+  if (rules.length > 1) return { rule: null, error: "More than one repeat rule (RRULE) is not supported" };
+  const rule = rules[0]?.value ?? null;
+  if (rule && !parseRecurrence(rule)) return { rule: null, error: `Unsupported repeat rule: ${rule}` };
+  return { rule, error: null };
+}
+
+const readText = (vevent: ICalComponent, name: string) => {
+  const property = getProperty(vevent, name);
+  return property ? unescapeText(property.value) : undefined;
+};
+
+function toImportedEvent(vevent: ICalComponent, context: ImportContext, defaultZone: string | null): ImportedEvent {
+  const uid = readText(vevent, "UID") ?? null;
+  const title = readText(vevent, "SUMMARY") ?? "";
+  const attendees = readAttendees(vevent);
+  const span = readSpan(vevent, context.timeZone, defaultZone);
+  const base = { uid, title, attendees, recurrenceExceptions: readExceptions(vevent, context.timeZone, defaultZone) };
+  if (!span) return { ...base, values: null, errors: ["Missing or invalid start date (DTSTART)"] };
+  const recurrence = readRecurrence(vevent);
+  if (recurrence.error) return { ...base, values: null, errors: [recurrence.error] };
+
+  const startDate = span.start.slice(0, 10);
+  const endDate = span.end.slice(0, 10);
+  const participants = (context.members ?? [])
+    .filter((member) => member.email && attendees.some(({ email }) => email === member.email!.toLowerCase()))
+    .map((member) => member.id);
+
+  const result = eventSchema.safeParse({
+    title,
+    description: readText(vevent, "DESCRIPTION") ?? "",
+    location: readText(vevent, "LOCATION") ?? "",
+    isMultiDay: endDate > startDate,
+    startDate,
+    endDate: endDate > startDate ? endDate : null,
+    startTime: span.allDay ? "00:00" : span.start.slice(11, 16),
+    endTime: span.allDay ? "23:59" : span.end.slice(11, 16),
+    participants,
+    recurrence: recurrence.rule,
+  });
+  if (!result.success) {
+    return {
+      ...base,
+      values: null,
+      errors: result.error.issues.map(({ path, message }) => (path.length ? `${path.join(".")}: ${message}` : message)),
+    };
+  }
+  return { ...base, values: result.data, errors: [] };
+}
+
+// Every VEVENT in the file, in order. A changed occurrence of a repeating
+// event (RECURRENCE-ID) is imported on its own and removed from its series.
+export function parseEventImport(text: string, context: ImportContext): ImportedEvent[] {
+  const calendars = parseICalendar(text);
+  const defaultZone =
+    calendars.map((calendar) => getProperty(calendar, "X-WR-TIMEZONE")?.value).find(Boolean) ?? null;
+  const vevents = findComponents(calendars, "VEVENT");
+
+  const imported = vevents.map((vevent) => toImportedEvent(vevent, context, defaultZone));
+  vevents.forEach((vevent, i) => {
+    const recurrenceId = readDate(getProperty(vevent, "RECURRENCE-ID"));
+    if (!recurrenceId) return;
+    const date = recurrenceId.time ? toLocalDateTime(recurrenceId, context.timeZone, defaultZone).slice(0, 10) : recurrenceId.date;
+    const series = imported.find((event, j) => j !== i && event.uid === imported[i].uid && event.values?.recurrence);
+    series?.recurrenceExceptions.push(date);
+    if (imported[i].values) imported[i].values!.recurrence = null;
+  });
+  return imported;
+}
+
+// -----------------------------
+// Import Conflicts
+// -----------------------------
+// "duplicate": the same event was exported from here (UID) or has the same
+// title and start; "overlap": an existing event takes up the same time.
+export interface ImportConflict {
+  type: "duplicate" | "overlap";
+  event: Event;
+}
+
+// The id an event exported from this app carries in its UID
+export function getExportedEventId(uid: string | null): string | null {
+  const match = uid?.match(new RegExp(`^(?!task-)(.+)@${UID_DOMAIN}$`));
+  return match ? match[1] : null;
+}
+
+// Start / end as comparable wall-clock date-times
+function getSpan(values: Pick<Event, "startDate" | "endDate" | "startTime" | "endTime" | "isMultiDay">) {
+  const startDate = values.startDate.slice(0, 10);
+  const lastDate = values.isMultiDay && values.endDate ? values.endDate.slice(0, 10) : startDate;
+  return {
+    start: `${startDate}T${values.startTime?.slice(0, 5) || "00:00"}`,
+    end: `${lastDate}T${values.endTime?.slice(0, 5) || "23:59"}`,
+  };
+}
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+// `existing` should cover the imported event's dates (series are expanded here)
+export function findImportConflicts(
+  imported: ImportedEvent,
+  existing: Event[]
+): ImportConflict[] {
+  const { values } = imported;
+  if (!values) return [];
+
+  const exportedId = getExportedEventId(imported.uid);
+  const span = getSpan(values);
+  const range = { from: span.start.slice(0, 10), to: span.end.slice(0, 10) };
+
+  const conflicts: ImportConflict[] = [];
+  for (const series of existing) {
+    for (const event of expandOccurrences("events", series, range)) {
+      const other = getSpan(event);
+      const duplicate =
+        event.id === exportedId ||
+        (normalizeTitle(event.title) === normalizeTitle(values.title) && other.start === span.start);
+      if (duplicate) conflicts.push({ type: "duplicate", event });
+      else if (other.start < span.end && span.start < other.end) conflicts.push({ type: "overlap", event });
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,237 @@
+// src/features/ical/useICalendar.ts
+import { useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import { useUiStore } from "@/stores/useUiStore";
+import { useEventListParams, type Event } from "@/stores/useEventStore";
+import { useTaskListParams } from "@/stores/useTaskStore";
+import type { Member } from "@/stores/useMemberStore";
+import { createOrQueue, isQueued } from "@/stores/useOfflineQueueStore";
+import { combineChanges, createdChange, recordChange } from "@/stores/useUndoStore";
+import { addEventToCache, findCachedEvent } from "@/features/events/eventCache";
+import { getRepositories, isNetworkError, listAll, type EventListParams, type TaskListParams } from "@/data";
+import { formatICalendar } from "./ical";
+import {
+  buildICalendar,
+  eventToVEvent,
+  findImportConflicts,
+  parseEventImport,
+  taskToVEvent,
+  type ImportConflict,
+  type ImportedEvent,
+} from "./icalEvents";
+
+// -----------------------------
+// Export
+// -----------------------------
+// Rows are read from the repository rather than the list caches: lists show
+// a repeating series as one of its occurrences, the file needs the series.
+export type ICalendarExport =
+  | { kind: "event"; id: string }
+  | { kind: "events"; params?: EventListParams } // default: the event list's filters
+  | { kind: "tasks"; params?: TaskListParams }; // scheduled tasks; default: the task view's filters
+
+function downloadICalendar(filename: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/calendar;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after the click returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+function toFilename(title: string) {
+  const slug = title.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-|-$/g, "");
+  return `${slug || "event"}.ics`;
+}
+
+// Attendees are best effort: members that fail to load are left out
+async function loadMembers(queryClient: QueryClient, events: Event[]): Promise<Member[]> {
+  const lists = await Promise.all(
+    events
+      .filter((event) => event.participants?.length)
+      .map((event) =>
+        queryClient
+          .fetchQuery({
+            queryKey: ["members", event.id],
+            queryFn: () => getRepositories().members.listByEvent(event.id),
+          })
+          .catch((): Member[] => [])
+      )
+  );
+  return lists.flat();
+}
+
+const countEvents = (n: number) => `${n} event${n === 1 ? "" : "s"}`;
+
+// Builds the .ics file and downloads it
+export function useExportICalendar() {
+  const queryClient = useQueryClient();
+  const timeZone = useUiStore((s) => s.timeZone);
+  const eventParams = useEventListParams();
+  const taskParams = useTaskListParams();
+
+  return useMutation({
+    mutationFn: async (request: ICalendarExport) => {
+      const now = new Date();
+      const { events, tasks } = getRepositories();
+
+      switch (request.kind) {
+        case "event": {
+          const event = findCachedEvent(queryClient, request.id) ?? (await events.getById(request.id));
+          const members = await loadMembers(queryClient, [event]);
+          return { filename: toFilename(event.title), vevents: [eventToVEvent(event, members, now)] };
+        }
+        case "events": {
+          const params = request.params ?? eventParams;
+          const items = await listAll(events.list, params);
+          const members = await loadMembers(queryClient, items);
+          return { filename: "events.ics", vevents: items.map((event) => eventToVEvent(event, members, now)) };
+        }
+        case "tasks": {
+          const params = request.params ?? taskParams;
+          const items = await listAll(tasks.list, {
+            ...params,
+            where: [...(params.where ?? []), { field: "isScheduled", op: "eq", value: true }],
+          });
+          return {
+            filename: "scheduled-tasks.ics",
+            vevents: items.flatMap((task) => taskToVEvent(task, now) ?? []),
+          };
+        }
+      }
+    },
+    onSuccess: ({ filename, vevents }) => {
+      if (!vevents.length) {
+        toast.error("Nothing to export");
+        return;
+      }
+      downloadICalendar(filename, formatICalendar(buildICalendar(vevents, timeZone)));
+      toast.success(`Exported ${countEvents(vevents.length)}`);
+    },
+    onError: (err) => {
+      console.error(err);
+      toast.error("Failed to export calendar");
+    },
+  });
+}
+
+// -----------------------------
+// Import
+// -----------------------------
+// Two steps: preview a file (every VEVENT with its validation errors and
+// conflicts with existing events), then import the rows the user keeps.
+export interface EventImportRow extends ImportedEvent {
+  conflicts: ImportConflict[];
+}
+
+export interface EventImportPreview {
+  rows: EventImportRow[];
+  conflictsChecked: boolean; // false when existing events could not be loaded (offline)
+}
+
+// `members`: attendees with a matching email become participants
+export function usePreviewEventImport(members?: Member[]) {
+  const timeZone = useUiStore((s) => s.timeZone);
+
+  return useMutation({
+    mutationFn: async (file: File | string): Promise<EventImportPreview> => {
+      const text = typeof file === "string" ? file : await file.text();
+      const imported = parseEventImport(text, { timeZone, members });
+      const dates = imported.flatMap(({ values }) =>
+        values ? [values.startDate, values.endDate || values.startDate] : []
+      );
+      if (!dates.length) return { rows: imported.map((row) => ({ ...row, conflicts: [] })), conflictsChecked: true };
+
+      const range = { from: dates.reduce((a, b) => (a < b ? a : b)), to: dates.reduce((a, b) => (a > b ? a : b)) };
+      try {
+        const { items } = await getRepositories().events.list({ dateRanges: [range] });
+        return {
+          rows: imported.map((row) => ({ ...row, conflicts: findImportConflicts(row, items) })),
+          conflictsChecked: true,
+        };
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        return { rows: imported.map((row) => ({ ...row, conflicts: [] })), conflictsChecked: false };
+      }
+    },
+    networkMode: "always", // parsing works offline
+    onSuccess: ({ rows }) => {
+      if (!rows.length) toast.error("No events found in this file");
+    },
+    onError: (err) => {
+      console.error(err);
+      toast.error("Failed to read calendar file");
+    },
+  });
+}
+
+export interface EventImportResult {
+  created: Event[];
+  failed: { row: ImportedEvent; error: unknown }[];
+  skipped: ImportedEvent[]; // rows without `values` (invalid, unsupported repeat rule)
+}
+
+const IMPORT_CONCURRENCY = 10;
+
+// `"Standup", "Review" and 2 more`
+function listTitles(rows: ImportedEvent[]) {
+  const titles = rows.slice(0, 3).map((row) => `"${row.title}"`);
+  const more = rows.length > titles.length ? ` and ${rows.length - titles.length} more` : "";
+  return `${titles.join(", ")}${more}`;
+}
+
+// Creates the valid rows; invalid ones are skipped. All created events are
+// one undo entry; failures and skipped rows are listed in one toast each.
+export function useImportEvents() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rows: ImportedEvent[]): Promise<EventImportResult> => {
+      const valid = rows.filter((row) => row.values);
+      const result: EventImportResult = { created: [], failed: [], skipped: rows.filter((row) => !row.values) };
+
+      for (let i = 0; i < valid.length; i += IMPORT_CONCURRENCY) {
+        const batch = valid.slice(i, i + IMPORT_CONCURRENCY);
+        const settled = await Promise.allSettled(
+          batch.map(({ values, recurrenceExceptions }) =>
+            createOrQueue("events", {
+              ...values!,
+              recurrenceExceptions: recurrenceExceptions.length ? recurrenceExceptions : null,
+            })
+          )
+        );
+        settled.forEach((outcome, j) => {
+          if (outcome.status === "fulfilled") result.created.push(outcome.value);
+          else result.failed.push({ row: batch[j], error: outcome.reason });
+        });
+      }
+      return result;
+    },
+    networkMode: "always", // queued while offline
+    onSuccess: ({ created, failed, skipped }) => {
+      if (created.length) {
+        const queued = created.filter((event) => isQueued("events", event.id));
+        recordChange(
+          `Imported ${countEvents(created.length)}${queued.length ? " (pending sync)" : ""}`,
+          combineChanges(created.map((event) => createdChange("events", event)))
+        );
+        queued.forEach((event) =>
+          addEventToCache(queryClient, { ...event, progress: event.progress ?? 0, participants: event.participants ?? [] })
+        );
+        if (queued.length < created.length) queryClient.invalidateQueries({ queryKey: ["events"] });
+      }
+      if (failed.length) {
+        failed.forEach(({ error }) => console.error(error));
+        toast.error(`Couldn't import ${countEvents(failed.length)}: ${listTitles(failed.map(({ row }) => row))}`);
+      }
+      if (skipped.length) {
+        toast.error(`Skipped ${countEvents(skipped.length)} with errors: ${listTitles(skipped)}`);
+      }
+    },
+    onError: (err) => {
+      console.error(err);
+      toast.error("Failed to import events");
+    },
+  });
+}
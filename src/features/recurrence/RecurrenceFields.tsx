@@ -0,0 +1,204 @@
+// src/features/recurrence/RecurrenceFields.tsx
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import {
+  formatRecurrence,
+  parseRecurrence,
+  type OccurrenceScope,
+  type Recurrence,
+  type RecurrenceFrequency,
+} from "./recurrence";
+
+// -----------------------------
+// Repeat Rule Fields
+// -----------------------------
+// Edits a repeat rule string; used as a controlled field by TaskForm and
+// EventForm (`value` / `onChange` of a react-hook-form Controller).
+interface RecurrenceFieldsProps {
+  value?: string | null;
+  onChange: (rule: string | null) => void;
+  disabled?: boolean;
+}
+
+type Ends = "never" | "until" | "count";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const UNITS: Record<RecurrenceFrequency, string> = { daily: "day(s)", weekly: "week(s)", monthly: "month(s)" };
+
+export const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ value, onChange, disabled }) => {
+  const recurrence = parseRecurrence(value);
+  // Kept apart from the rule so "On date" / "After" stay picked until filled in
+  const [ends, setEnds] = useState<Ends>(recurrence?.until ? "until" : recurrence?.count ? "count" : "never");
+
+  const update = (changes: Partial<Recurrence>) => {
+    if (recurrence) onChange(formatRecurrence({ ...recurrence, ...changes }));
+  };
+
+  const toggleWeekday = (day: number) => {
+    const days = recurrence?.byWeekday ?? [];
+    update({ byWeekday: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort() });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label>Repeat</Label>
+          <Select
+            value={recurrence?.freq ?? "none"}
+            disabled={disabled}
+            onValueChange={(freq) =>
+              freq === "none"
+                ? onChange(null)
+                : onChange(
+                    formatRecurrence({
+                      interval: 1,
+                      until: null,
+                      count: null,
+                      ...recurrence,
+                      freq: freq as RecurrenceFrequency,
+                      byWeekday: freq === "weekly" ? recurrence?.byWeekday ?? [] : [],
+                    })
+                  )
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Does not repeat" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {recurrence && (
+          <div>
+            <Label>Every {UNITS[recurrence.freq]}</Label>
+            <Input
+              type="number"
+              min={1}
+              value={recurrence.interval}
+              disabled={disabled}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Weekdays; none picked repeats on the first occurrence's weekday */}
+      {recurrence?.freq === "weekly" && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map((label, day) => (
+            <Button
+              key={label}
+              type="button"
+              variant={recurrence.byWeekday.includes(day) ? "default" : "outline"}
+              disabled={disabled}
+              onClick={() => toggleWeekday(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {recurrence && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label>Ends</Label>
+            <Select
+              value={ends}
+              disabled={disabled}
+              onValueChange={(next) => {
+                setEnds(next as Ends);
+                if (next === "never") update({ until: null, count: null });
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {ends === "until" && (
+            <div>
+              <Label>Last date</Label>
+              <Input
+                type="date"
+                value={recurrence.until ?? ""}
+                disabled={disabled}
+                onChange={(e) => update({ until: e.target.value || null, count: null })}
+              />
+            </div>
+          )}
+          {ends === "count" && (
+            <div>
+              <Label>Occurrences</Label>
+              <Input
+                type="number"
+                min={1}
+                value={recurrence.count ?? ""}
+                disabled={disabled}
+                onChange={(e) => update({ count: Number(e.target.value) >= 1 ? Number(e.target.value) : null, until: null })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// -----------------------------
+// Edit Scope
+// -----------------------------
+// Which occurrences a save or delete applies to, asked when editing one
+// occurrence of a repeating task or event
+interface OccurrenceScopeFieldProps {
+  value: OccurrenceScope;
+  onChange: (scope: OccurrenceScope) => void;
+  disabled?: boolean;
+}
+
+const SCOPES: { value: OccurrenceScope; label: string }[] = [
+  { value: "this", label: "This occurrence" },
+  { value: "following", label: "This and following" },
+  { value: "all", label: "All occurrences" },
+];
+
+export const OccurrenceScopeField: React.FC<OccurrenceScopeFieldProps> = ({ value, onChange, disabled }) => (
+  <div>
+    <Label>Apply changes to</Label>
+    <Select value={value} disabled={disabled} onValueChange={(scope) => onChange(scope as OccurrenceScope)}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SCOPES.map((scope) => (
+          <SelectItem key={scope.value} value={scope.value}>
+            {scope.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export default RecurrenceFields;
@@ -0,0 +1,412 @@
+// src/features/recurrence/recurrence.ts
+import type { Task } from "@/stores/useTaskStore";
+import type { Event } from "@/stores/useEventStore";
+import type { DateRange, ListResult } from "@/data";
+import { addDays, addMonths, daysBetween, getWeekday, startOfWeek } from "@/lib/dates";
+
+// -----------------------------
+// Recurrence Rules
+// -----------------------------
+// Stored on tasks and events as an RFC 5545 RRULE string, e.g.
+// "FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261231". Only the parts below are
+// understood; a rule with any other part (BYMONTHDAY, BYSETPOS, "2TU", …)
+// is unsupported rather than read as a simpler one.
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export interface Recurrence {
+  freq: RecurrenceFrequency;
+  interval: number; // every n days / weeks / months
+  byWeekday: number[]; // weekly only, 0 = Sunday; empty = the first occurrence's weekday
+  until: string | null; // "YYYY-MM-DD", inclusive
+  count: number | null; // total number of occurrences
+}
+
+const FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: "daily",
+  WEEKLY: "weekly",
+  MONTHLY: "monthly",
+};
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const RULE_PARTS = new Set(["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "WKST"]);
+
+// Null for a missing or unsupported rule
+export function parseRecurrence(rule: string | null | undefined): Recurrence | null {
+  if (!rule) return null;
+
+  const parts = new Map(
+    rule
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .filter((part) => part.trim())
+      .map((part): [string, string] => {
+        const [key, value = ""] = part.split("=");
+        return [key.trim().toUpperCase(), value.trim().toUpperCase()];
+      })
+  );
+  const freq = FREQUENCIES[parts.get("FREQ") ?? ""];
+  if (!freq || [...parts.keys()].some((key) => !RULE_PARTS.has(key))) return null;
+  // Weeks always start on Monday here (see `periodDates`)
+  if (parts.has("WKST") && parts.get("WKST") !== "MO") return null;
+
+  const interval = parts.has("INTERVAL") ? Number(parts.get("INTERVAL")) : 1;
+  const count = parts.has("COUNT") ? Number(parts.get("COUNT")) : null;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+  if (count !== null && (!Number.isInteger(count) || count < 1)) return null;
+
+  const until = parts.get("UNTIL")?.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/); // DATE or DATE-TIME
+  if (parts.has("UNTIL") && !until) return null;
+
+  // Plain weekdays on weekly rules only; "2TU" (the second Tuesday) and
+  // the like are not supported
+  const byDay = parts.get("BYDAY")?.split(",") ?? [];
+  if (byDay.length && (freq !== "weekly" || byDay.some((code) => !DAY_CODES.includes(code)))) return null;
+  const byWeekday = byDay.map((code) => DAY_CODES.indexOf(code));
+
+  return {
+    freq,
+    interval,
+    byWeekday: [...new Set(byWeekday)].sort(),
+    until: until ? `${until[1]}-${until[2]}-${until[3]}` : null,
+    count: !until && count ? count : null, // UNTIL and COUNT are exclusive
+  };
+}
+
+export function formatRecurrence(recurrence: Recurrence): string {
+  const { freq, interval, byWeekday, until, count } = recurrence;
+  const parts = [`FREQ=${freq.toUpperCase()}`];
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+  if (freq === "weekly" && byWeekday.length) {
+    parts.push(`BYDAY=${byWeekday.map((day) => DAY_CODES[day]).join(",")}`);
+  }
+  if (until) parts.push(`UNTIL=${until.replace(/-/g, "")}`);
+  else if (count) parts.push(`COUNT=${count}`);
+  return parts.join(";");
+}
+
+// -----------------------------
+// Occurrence Dates
+// -----------------------------
+const MAX_STEPS = 20_000; // days / weeks / months; a safety net for open-ended rules
+
+// Candidate dates of the n-th period, in order
+function periodDates(start: string, recurrence: Recurrence, period: number): string[] {
+  const steps = period * recurrence.interval;
+  switch (recurrence.freq) {
+    case "daily":
+      return [addDays(start, steps)];
+    case "weekly": {
+      // Weeks start on Monday, as in RFC 5545
+      const weekStart = addDays(startOfWeek(start, 1), steps * 7);
+      const days = recurrence.byWeekday.length ? recurrence.byWeekday : [getWeekday(start)];
+      return days.map((day) => addDays(weekStart, (day + 6) % 7)).sort();
+    }
+    case "monthly": {
+      // Months without that day (e.g. the 31st) are skipped
+      const date = addMonths(start, steps);
+      return date.slice(8) === start.slice(8) ? [date] : [];
+    }
+  }
+}
+
+// Every occurrence date from `start` on, in order. Dates removed from the
+// series still count towards COUNT, as in RFC 5545.
+export function* occurrenceDates(start: string, recurrence: Recurrence): Generator<string> {
+  let emitted = 0;
+  for (let period = 0; period < MAX_STEPS; period++) {
+    for (const date of periodDates(start, recurrence, period)) {
+      if (date < start) continue;
+      if ((recurrence.until && date > recurrence.until) || emitted === recurrence.count) return;
+      emitted++;
+      yield date;
+    }
+  }
+}
+
+// -----------------------------
+// Recurring Tasks & Events
+// -----------------------------
+// A series is one row with `recurrence`. Its occurrences are copies of that
+// row (same id) with shifted dates and `occurrenceDate` set; they are never
+// stored. An occurrence edited on its own becomes a row of its own, with
+// `seriesId` / `occurrenceDate`, and its date joins the series'
+// `recurrenceExceptions`, like a deleted occurrence.
+export type RecurringTable = "tasks" | "events";
+
+type RecurringRecord = { tasks: Task; events: Event };
+
+const DATE_FIELDS = {
+  tasks: ["dueDate", "scheduleStart", "scheduleEnd"],
+  events: ["startDate", "endDate"],
+} as const;
+
+type DateFields = Record<string, string | null | undefined>;
+
+// The date occurrences are counted from: a task's due date (else its
+// schedule start), an event's start date
+export function getSeriesStart<T extends RecurringTable>(
+  table: T,
+  record: RecurringRecord[T]
+): string | null {
+  const fields = record as unknown as DateFields;
+  const start = table === "tasks" ? fields.dueDate || fields.scheduleStart : fields.startDate;
+  return start ? start.slice(0, 10) : null;
+}
+
+// Days from the series start to the record's latest date (multi-day events)
+function getSpan<T extends RecurringTable>(table: T, record: RecurringRecord[T], start: string) {
+  const fields = record as unknown as DateFields;
+  return Math.max(
+    0,
+    ...DATE_FIELDS[table].map((field) => (fields[field] ? daysBetween(start, fields[field]!) : 0))
+  );
+}
+
+// Move every date field by `days`, keeping any time part
+export function shiftRecordDates<T extends RecurringTable>(
+  table: T,
+  record: Partial<RecurringRecord[T]>,
+  days: number
+): Partial<RecurringRecord[T]> {
+  const fields = record as DateFields;
+  const shifted: DateFields = {};
+  for (const field of DATE_FIELDS[table]) {
+    const value = fields[field];
+    if (value) shifted[field] = `${addDays(value.slice(0, 10), days)}${value.slice(10)}`;
+  }
+  return { ...record, ...shifted };
+}
+
+// The occurrence of `record` on `date` (assumed to be one of its dates)
+export function getOccurrence<T extends RecurringTable>(
+  table: T,
+  record: RecurringRecord[T],
+  date: string
+): RecurringRecord[T] {
+  const start = getSeriesStart(table, record);
+  if (!start || !record.recurrence) return record;
+  return {
+    ...shiftRecordDates(table, record, daysBetween(start, date)),
+    occurrenceDate: date,
+  } as RecurringRecord[T];
+}
+
+// Occurrences in order, skipping removed dates, with each one's last day
+function* occurrencesOf<T extends RecurringTable>(table: T, record: RecurringRecord[T]) {
+  const recurrence = parseRecurrence(record.recurrence);
+  const start = getSeriesStart(table, record);
+  if (!recurrence || !start) return;
+
+  const span = getSpan(table, record, start);
+  const removed = new Set(record.recurrenceExceptions ?? []);
+  for (const date of occurrenceDates(start, recurrence)) {
+    if (!removed.has(date)) yield { date, end: addDays(date, span) };
+  }
+}
+
+// Every occurrence overlapping the range; records that do not repeat are
+// returned as they are
+export function expandOccurrences<T extends RecurringTable>(
+  table: T,
+  record: RecurringRecord[T],
+  { from, to }: { from: string; to: string }
+): RecurringRecord[T][] {
+  if (!parseRecurrence(record.recurrence)) return [record];
+
+  const occurrences: RecurringRecord[T][] = [];
+  for (const { date, end } of occurrencesOf(table, record)) {
+    if (date > to) break;
+    if (end >= from) occurrences.push(getOccurrence(table, record, date));
+  }
+  return occurrences;
+}
+
+// How a series shows up in a list: its first occurrence overlapping one of
+// `ranges`, or null. Without ranges, its first occurrence ending on or
+// after `today`, or its last one once the series is over. Records that do
+// not repeat pass through.
+export function toListOccurrence<T extends RecurringTable>(
+  table: T,
+  record: RecurringRecord[T],
+  today: string,
+  ranges?: DateRange[]
+): RecurringRecord[T] | null {
+  if (!parseRecurrence(record.recurrence)) return record;
+
+  const matches = ranges ?? [{ from: today }];
+  const lastDay = matches.every((range) => range.to)
+    ? matches.reduce((max, range) => (range.to! > max ? range.to! : max), "")
+    : null;
+
+  let last: string | null = null;
+  for (const { date, end } of occurrencesOf(table, record)) {
+    if (lastDay && date > lastDay) break;
+    if (matches.some(({ from, to }) => (!to || date <= to) && (!from || end >= from))) {
+      return getOccurrence(table, record, date);
+    }
+    last = date;
+  }
+  return !ranges && last ? getOccurrence(table, record, last) : null;
+}
+
+// A list page with every series replaced by its list occurrence. Series
+// without one are dropped from the page but stay in `totalCount`: the
+// backend counts stored rows, and which series it let through is only known
+// once their pages are loaded (see `getListedCount`).
+export function toListOccurrences<T extends RecurringTable>(
+  table: T,
+  result: ListResult<RecurringRecord[T]>,
+  today: string,
+  ranges?: DateRange[]
+): ListResult<RecurringRecord[T]> {
+  const items = result.items
+    .map((record) => toListOccurrence(table, record, today, ranges))
+    .filter((record): record is RecurringRecord[T] => !!record);
+  return { ...result, items };
+}
+
+// How many rows a list shows in all, given its loaded pages: exact once the
+// list is loaded from its first page to its last, otherwise the backend's
+// `totalCount` (at most that many)
+export function getListedCount<T>(pages: ListResult<T>[]): number | undefined {
+  const last = pages[pages.length - 1];
+  if (!last) return undefined;
+  if (pages[0].page !== 1 || last.nextPage) return last.totalCount;
+  return pages.reduce((sum, page) => sum + page.items.length, 0);
+}
+
+// Whether a loaded page lost so many series that the next one should be
+// loaded right away, so infinite lists do not stall on a short or empty page
+export function isNarrowedPage<T>(page: ListResult<T>): boolean {
+  return !!page.nextPage && page.pageSize !== null && page.items.length < page.pageSize / 2;
+}
+
+// -----------------------------
+// Editing Occurrences
+// -----------------------------
+// "this": only this occurrence; "following": this one and every later one
+// (the series is split); "all": the whole series
+export type OccurrenceScope = "this" | "following" | "all";
+
+export interface OccurrenceWrites<T extends RecurringTable> {
+  creates: Partial<RecurringRecord[T]>[];
+  updates: { id: string; data: Partial<RecurringRecord[T]> }[];
+}
+
+// Fields that identify a stored row rather than describe it
+const IDENTITY_FIELDS = ["id", "createdAt", "updatedAt", "created_at", "updated_at", "deletedAt", "deleted_at"];
+
+function withoutIdentity<T extends RecurringTable>(record: RecurringRecord[T]) {
+  const copy: Record<string, unknown> = { ...record };
+  IDENTITY_FIELDS.forEach((field) => delete copy[field]);
+  return copy as Partial<RecurringRecord[T]>;
+}
+
+// The series' rule cut off just before `date`
+function endBefore(recurrence: Recurrence, date: string) {
+  return formatRecurrence({ ...recurrence, until: addDays(date, -1), count: null });
+}
+
+// How many occurrences come before `date` (removed ones included)
+function countBefore(start: string, recurrence: Recurrence, date: string) {
+  let count = 0;
+  for (const occurrence of occurrenceDates(start, recurrence)) {
+    if (occurrence >= date) break;
+    count++;
+  }
+  return count;
+}
+
+// The writes that apply `data` (the occurrence's edited fields, dates as
+// shown for that occurrence) to `series` with the given scope
+export function planOccurrenceEdit<T extends RecurringTable>(
+  table: T,
+  series: RecurringRecord[T],
+  occurrenceDate: string,
+  scope: OccurrenceScope,
+  data: Partial<RecurringRecord[T]>
+): OccurrenceWrites<T> {
+  const recurrence = parseRecurrence(series.recurrence);
+  const start = getSeriesStart(table, series);
+  if (!recurrence || !start) return { creates: [], updates: [{ id: series.id, data }] };
+
+  const exceptions = series.recurrenceExceptions ?? [];
+  const occurrence = getOccurrence(table, series, occurrenceDate);
+
+  if (scope === "all" || (scope === "following" && occurrenceDate === start)) {
+    // Dates were edited as seen on the occurrence; move them back to the series
+    const days = daysBetween(occurrenceDate, start);
+    return { creates: [], updates: [{ id: series.id, data: shiftRecordDates(table, data, days) }] };
+  }
+
+  if (scope === "this") {
+    return {
+      creates: [
+        {
+          ...withoutIdentity(occurrence),
+          ...data,
+          recurrence: null,
+          recurrenceExceptions: null,
+          seriesId: series.id,
+          occurrenceDate,
+        },
+      ],
+      updates: [{ id: series.id, data: { recurrenceExceptions: [...exceptions, occurrenceDate] } as Partial<RecurringRecord[T]> }],
+    };
+  }
+
+  // "following": end the series before this occurrence, start a new one
+  // here. An unchanged COUNT only covers the occurrences that are left.
+  const { recurrence: editedRule, ...rest } = data;
+  const remaining = recurrence.count && recurrence.count - countBefore(start, recurrence, occurrenceDate);
+  const rule =
+    editedRule !== undefined && editedRule !== series.recurrence
+      ? editedRule
+      : formatRecurrence({ ...recurrence, count: remaining || null });
+  return {
+    creates: [
+      {
+        ...withoutIdentity(occurrence),
+        recurrenceExceptions: exceptions.filter((date) => date > occurrenceDate),
+        ...rest,
+        recurrence: rule,
+        occurrenceDate: null,
+      } as Partial<RecurringRecord[T]>,
+    ],
+    updates: [
+      {
+        id: series.id,
+        data: {
+          recurrence: endBefore(recurrence, occurrenceDate),
+          recurrenceExceptions: exceptions.filter((date) => date < occurrenceDate),
+        } as Partial<RecurringRecord[T]>,
+      },
+    ],
+  };
+}
+
+// Removing occurrences. "all" (or "following" from the first occurrence)
+// moves the series to the trash.
+export function planOccurrenceDelete<T extends RecurringTable>(
+  table: T,
+  series: RecurringRecord[T],
+  occurrenceDate: string,
+  scope: OccurrenceScope,
+  now: string
+): OccurrenceWrites<T> {
+  const recurrence = parseRecurrence(series.recurrence);
+  const start = getSeriesStart(table, series);
+  const trashField = table === "tasks" ? "deletedAt" : "deleted_at";
+  const trash = { [trashField]: now } as Partial<RecurringRecord[T]>;
+
+  if (!recurrence || !start || scope === "all" || (scope === "following" && occurrenceDate === start)) {
+    return { creates: [], updates: [{ id: series.id, data: trash }] };
+  }
+
+  const data =
+    scope === "this"
+      ? { recurrenceExceptions: [...(series.recurrenceExceptions ?? []), occurrenceDate] }
+      : { recurrence: endBefore(recurrence, occurrenceDate) };
+  return { creates: [], updates: [{ id: series.id, data: data as Partial<RecurringRecord[T]> }] };
+}
@@ -0,0 +1,11 @@
+// src/features/recurrence/recurrenceSchema.ts
+import { z } from "zod";
+import { parseRecurrence } from "./recurrence";
+
+// Repeat rule as stored on tasks and events (see `parseRecurrence`);
+// empty or null for "does not repeat"
+export const recurrenceSchema = z
+  .string()
+  .nullable()
+  .optional()
+  .refine((rule) => !rule || !!parseRecurrence(rule), "Unsupported repeat rule.");
@@ -0,0 +1,115 @@
+// src/features/recurrence/useOccurrenceMutations.ts
+import { useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import type { Task } from "@/stores/useTaskStore";
+import type { Event } from "@/stores/useEventStore";
+import { withLocalWrite } from "@/stores/useRealtimeStore";
+import { createOrQueue, isQueued, updateOrQueue } from "@/stores/useOfflineQueueStore";
+import { combineChanges, createdChange, recordChange, updatedChange } from "@/stores/useUndoStore";
+import { findCachedTask } from "@/features/tasks/taskCache";
+import { findCachedEvent } from "@/features/events/eventCache";
+import { getRepositories } from "@/data";
+import {
+  planOccurrenceDelete,
+  planOccurrenceEdit,
+  type OccurrenceScope,
+  type OccurrenceWrites,
+  type RecurringTable,
+} from "./recurrence";
+
+// -----------------------------
+// Occurrence Mutations
+// -----------------------------
+// Edits and deletes of one occurrence of a repeating task or event, with
+// the scope the user picked. The writes (see `planOccurrenceEdit`) go out in
+// order and are recorded as one undoable change.
+type RecurringRecord = { tasks: Task; events: Event };
+
+interface UpdatedRecord<R> {
+  previous: R;
+  record: R;
+  data: Partial<R>;
+}
+
+const LABELS: Record<RecurringTable, string> = { tasks: "Task", events: "Event" };
+const DETAIL_KEY: Record<RecurringTable, string> = { tasks: "task", events: "event" };
+
+interface OccurrenceTarget {
+  id: string; // the series
+  occurrenceDate: string;
+  scope: OccurrenceScope;
+}
+
+async function loadSeries<T extends RecurringTable>(
+  queryClient: QueryClient,
+  table: T,
+  id: string
+): Promise<RecurringRecord[T]> {
+  const cached = table === "tasks" ? findCachedTask(queryClient, id) : findCachedEvent(queryClient, id);
+  return (cached ?? (await getRepositories()[table].getById(id))) as RecurringRecord[T];
+}
+
+function useOccurrenceWrites<T extends RecurringTable, TVariables extends OccurrenceTarget>(
+  table: T,
+  plan: (series: RecurringRecord[T], variables: TVariables, now: string) => OccurrenceWrites<T>,
+  messages: { success: string; error: string }
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (variables: TVariables) => {
+      const series = await loadSeries(queryClient, table, variables.id);
+      const { creates, updates } = plan(series, variables, new Date().toISOString());
+
+      const created: RecurringRecord[T][] = [];
+      for (const data of creates) created.push(await createOrQueue(table, data));
+      const updated: UpdatedRecord<RecurringRecord[T]>[] = [];
+      for (const { id, data } of updates) {
+        const record = await withLocalWrite(table, id, () => updateOrQueue(table, id, data, series));
+        updated.push({ previous: series, record, data });
+      }
+      return { created, updated };
+    },
+    networkMode: "always", // queued while offline
+    onSuccess: ({ created, updated }, { id }) => {
+      const pending = [...created, ...updated.map(({ record }) => record)].some((record) =>
+        isQueued(table, record.id)
+      );
+      recordChange(
+        pending ? `${messages.success} (pending sync)` : messages.success,
+        combineChanges([
+          ...created.map((record) => createdChange(table, record)),
+          ...updated.map(({ previous, data }) => updatedChange(table, previous, data)),
+        ])
+      );
+      queryClient.invalidateQueries({ queryKey: [table] });
+      queryClient.invalidateQueries({ queryKey: [DETAIL_KEY[table], id] });
+      if (table === "tasks") {
+        queryClient.invalidateQueries({ queryKey: ["events"] }); // progress is derived from tasks
+      }
+    },
+    onError: (err) => {
+      console.error(err);
+      toast.error(messages.error);
+    },
+  });
+}
+
+// `data` holds the edited fields with dates as shown on the occurrence
+export function useEditOccurrence<T extends RecurringTable>(table: T) {
+  return useOccurrenceWrites(
+    table,
+    (series, { occurrenceDate, scope, data }: OccurrenceTarget & { data: Partial<RecurringRecord[T]> }) =>
+      planOccurrenceEdit(table, series, occurrenceDate, scope, data),
+    { success: `${LABELS[table]} updated`, error: `Failed to update ${LABELS[table].toLowerCase()}` }
+  );
+}
+
+export function useDeleteOccurrence<T extends RecurringTable>(table: T) {
+  return useOccurrenceWrites(
+    table,
+    (series, { occurrenceDate, scope }: OccurrenceTarget, now) =>
+      planOccurrenceDelete(table, series, occurrenceDate, scope, now),
+    { success: `${LABELS[table]} deleted`, error: `Failed to delete ${LABELS[table].toLowerCase()}` }
+  );
+}
@@ -1,12 +1,27 @@
 // src/features/tasks/forms/TaskForm.tsx
-import React from "react";
+import React, { useState } from "react";
 import { useForm, useFieldArray, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { toast } from "react-hot-toast";
 import { useUiStore } from "@/stores/useUiStore";
 import { useCreateTask, useUpdateTask } from "@/stores/useTaskStore";
 import { useMembers } from "@/stores/useMemberStore";
-import { taskSchema, TaskFormValues } from "./taskSchema";
+import { useEventOptions } from "@/stores/useEventStore";
+import { useRemoteChange } from "@/stores/useRealtimeStore";
+import { usePendingSync } from "@/stores/useOfflineQueueStore";
+import { useEditOccurrence } from "@/features/recurrence/useOccurrenceMutations";
+import { OccurrenceScopeField, RecurrenceFields } from "@/features/recurrence/RecurrenceFields";
+import type { OccurrenceScope } from "@/features/recurrence/recurrence";
+import { getSubtaskProgress, withSubtaskIds } from "@/features/tasks/subtasks";
+import { useFileUploads } from "@/features/uploads/useFileUploads";
+import { AttachmentsField } from "@/features/uploads/UploadFields";
+import {
+  taskSchema,
+  TaskFormValues,
+  attachmentFileSchema,
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS,
+} from "./taskSchema";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -27,23 +42,38 @@ interface TaskFormProps {
   mode: "create" | "edit";
   defaultValues?: Partial<TaskFormValues>;
   taskId?: string;
-  eventId?: string; // optional for event-related task
+  eventId?: string; // preselected event for a new event-related task
+  occurrenceDate?: string | null; // editing one occurrence of a repeating task
 }
 
 // Replace this with your actual auth hook/context
 import { useAuth } from "@/stores/useAuth"; 
 
-export const TaskForm: React.FC<TaskFormProps> = ({ mode, defaultValues, taskId, eventId }) => {
+export const TaskForm: React.FC<TaskFormProps> = ({ mode, defaultValues, taskId, eventId, occurrenceDate }) => {
   const closeModal = useUiStore((s) => s.closeAllModals);
   const createTask = useCreateTask();
   const updateTask = useUpdateTask();
+  const editOccurrence = useEditOccurrence("tasks");
+
+  // Which occurrences an edit of a repeating task applies to
+  const isOccurrence = mode === "edit" && !!occurrenceDate && !!defaultValues?.recurrence;
+  const [scope, setScope] = useState<OccurrenceScope>("this");
 
   // Get current user ID from authentication
   const { user } = useAuth(); // assuming your auth store provides `user.id`
   const currentUserId = user?.id;
 
-  // Fetch event members if eventId exists
-  const { data: members = [], isLoading: membersLoading, isError: membersError } = useMembers(eventId);
+  // Flag edits/deletes of this task made by someone else while the form is open
+  const { change: remoteChange, acknowledge: acknowledgeRemoteChange } = useRemoteChange(
+    "tasks",
+    mode === "edit" ? taskId : null
+  );
+
+  // Changes to this task made offline and not synced yet
+  const offlineSync = usePendingSync("tasks", mode === "edit" ? taskId : null);
+
+  // Events to link the task to
+  const { data: events = [], isLoading: eventsLoading } = useEventOptions();
 
   // Initialize form
   const {
@@ -53,6 +83,7 @@ export const TaskForm: React.FC<TaskFormProps> = ({ mode, defaultValues, taskId,
     watch,
     reset,
     setValue,
+    getValues,
     formState: { errors, isSubmitting },
   } = useForm<TaskFormValues>({
     resolver: zodResolver(taskSchema),
@@ -63,13 +94,14 @@ export const TaskForm: React.FC<TaskFormProps> = ({ mode, defaultValues, taskId,
       status: "To Do",
       dueDate: "",
       assignees: [],
-      relatedEventName: "",
+      eventId: eventId ?? null,
       isPersonal: !eventId, // default to personal if no event
       isScheduled: false,
       scheduleStart: "",
       scheduleEnd: "",
       subtasks: [],
       attachments: [],
+      recurrence: null,
       ...defaultValues,
     },
   });
@@ -79,23 +111,51 @@ export const TaskForm: React.FC<TaskFormProps> = ({ mode, defaultValues, taskId,
 
   const isScheduled = watch("isScheduled");
   const isPersonal = watch("isPersonal");
+  const selectedEventId = watch("eventId");
+
+  // Files are uploaded as soon as they are picked; see useFileUploads
+  const attachmentUploads = useFileUploads({
+    folder: "tasks",
+    schema: attachmentFileSchema,
+    onUploaded: (path) => setValue("attachments", [...(getValues("attachments") ?? []), path], { shouldDirty: true }),
+  });
+
+  // Assignees are picked from the linked event's members
+  const {
+    data: members = [],
+    isLoading: membersLoading,
+    isError: membersError,
+  } = useMembers(selectedEventId ?? undefined);
 
   // Handle form submission
   const onSubmit = async (data: TaskFormValues) => {
+    if (attachmentUploads.isUploading) {
+      toast.error("Wait for the attachments to finish uploading");
+      return;
+    }
     try {
       // If personal task or no event, assign to current user only
-      if (isPersonal || !eventId) {
+      if (isPersonal || !data.eventId) {
         data.assignees = currentUserId ? [currentUserId] : [];
       }
 
+      // Subtasks get ids (cards edit them one by one) and roll up into `progress`
+      const subtasks = withSubtaskIds(data.subtasks ?? []);
+      const progress = getSubtaskProgress(data.status, defaultValues?.subtasks ?? [], subtasks);
+      const values = { ...data, subtasks, ...(progress !== undefined && { progress }) };
+
       if (mode === "create") {
-        await createTask.mutateAsync(data);
+        await createTask.mutateAsync(values);
         toast.success("Task created successfully");
+      } else if (isOccurrence && taskId) {
+        await editOccurrence.mutateAsync({ id: taskId, occurrenceDate: occurrenceDate!, scope, data: values });
+        toast.success("Task updated successfully");
       } else if (mode === "edit" && taskId) {
-        await updateTask.mutateAsync({ id: taskId, data });
+        await updateTask.mutateAsync({ id: taskId, data: values });
         toast.success("Task updated successfully");
       }
 
+      attachmentUploads.commit();
       reset();
       closeModal();
     } catch (err) {
@@ -106,6 +166,41 @@ export const TaskForm: React.FC<TaskFormProps> = ({ mode, defaultValues, taskId,
 
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 p-4">
+      {/* Offline changes that conflict with newer data */}
+      {offlineSync.conflict ? (
+        <div className="flex items-center justify-between gap-3 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">
+          <span>
+            {offlineSync.conflict.reason === "changed"
+              ? "Your offline changes to this task conflict with newer changes."
+              : offlineSync.conflict.reason === "deleted"
+              ? "This task was deleted before your offline changes could sync."
+              : "Your offline changes to this task could not be saved."}
+          </span>
+          <div className="flex gap-2">
+            {offlineSync.conflict.reason !== "deleted" && (
+              <Button type="button" variant="link" onClick={() => offlineSync.resolve("mine")}>Keep mine</Button>
+            )}
+            <Button type="button" variant="link" onClick={() => offlineSync.resolve("theirs")}>Discard mine</Button>
+          </div>
+        </div>
+      ) : (
+        offlineSync.isPending && (
+          <p className="rounded-md bg-gray-50 p-2 text-sm text-gray-600">Changes to this task are waiting to sync.</p>
+        )
+      )}
+
+      {/* Changed by someone else */}
+      {remoteChange && (
+        <div className="flex items-center justify-between gap-3 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+          <span>
+            {remoteChange.type === "delete"
+              ? "This task was deleted by someone else."
+              : "This task was changed by someone else. Saving will overwrite their changes."}
+          </span>
+          <Button type="button" variant="link" onClick={acknowledgeRemoteChange}>Dismiss</Button>
+        </div>
+      )}
+
       {/* Task title */}
       <div>
         <Label>Task Title *</Label>
@@ -165,6 +260,37 @@ export const TaskForm: React.FC<TaskFormProps> = ({ mode, defaultValues, taskId,
         </div>
       </div>
 
+      {/* Linked event */}
+      <div>
+        <Label>Event</Label>
+        <Controller
+          name="eventId"
+          control={control}
+          render={({ field }) => (
+            <Select
+              value={field.value ?? "none"}
+              onValueChange={(val) => {
+                field.onChange(val === "none" ? null : val);
+                setValue("assignees", []); // members of the previous event
+              }}
+              disabled={eventsLoading}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={eventsLoading ? "Loading events..." : "Select event"} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No event</SelectItem>
+                {events.map((event) => (
+                  <SelectItem key={event.id} value={event.id}>
+                    {event.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        />
+      </div>
+
       {/* Assignees selection (only for event tasks) */}
       {!isPersonal && (
         <div>
@@ -228,6 +354,18 @@ export const TaskForm: React.FC<TaskFormProps> = ({ mode, defaultValues, taskId,
         </div>
       )}
 
+      {/* Repeat; a single occurrence cannot repeat on its own */}
+      {!(isOccurrence && scope === "this") && (
+        <div>
+          <Controller
+            name="recurrence"
+            control={control}
+            render={({ field }) => <RecurrenceFields value={field.value} onChange={field.onChange} />}
+          />
+          {errors.recurrence && <p className="text-red-500 text-sm mt-1">{errors.recurrence.message}</p>}
+        </div>
+      )}
+
       {/* Subtasks */}
       <div>
         <Label>Subtasks (optional)</Label>
@@ -244,6 +382,28 @@ export const TaskForm: React.FC<TaskFormProps> = ({ mode, defaultValues, taskId,
         </Button>
       </div>
 
+      {/* Attachments */}
+      <div>
+        <Label>Attachments (optional)</Label>
+        <Controller
+          name="attachments"
+          control={control}
+          render={({ field }) => (
+            <AttachmentsField
+              value={field.value ?? []}
+              onChange={field.onChange}
+              uploads={attachmentUploads}
+              accept={ATTACHMENT_TYPES}
+              max={MAX_ATTACHMENTS}
+            />
+          )}
+        />
+        {errors.attachments && <p className="text-red-500 text-sm mt-1">{errors.attachments.message}</p>}
+      </div>
+
+      {/* Edit scope for one occurrence of a repeating task */}
+      {isOccurrence && <OccurrenceScopeField value={scope} onChange={setScope} />}
+
       {/* Form actions */}
       <div className="flex justify-end gap-3 mt-4">
         <Button variant="outline" type="button" onClick={closeModal}>Cancel</Button>
@@ -1,5 +1,27 @@
 // src/features/tasks/forms/taskSchema.ts
 import { z } from "zod";
+import { recurrenceSchema } from "@/features/recurrence/recurrenceSchema";
+import { fileSchema } from "@/features/uploads/fileSchema";
+
+// Files that can be attached to a task
+export const ATTACHMENT_TYPES = [
+  "image/*",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "text/markdown",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/zip",
+];
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+export const MAX_ATTACHMENTS = 10;
+
+export const attachmentFileSchema = fileSchema(ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE);
 
 export const subtaskSchema = z.object({
   id: z.string().optional(),
@@ -36,7 +58,7 @@ export const taskSchema = z.object({
   assignees: z
     .array(z.string())
     .min(1, "Please select at least one assignee."),
-  relatedEventName: z.string().nullable().optional(),
+  eventId: z.string().nullable().optional(),
   isPersonal: z.boolean().default(false),
   isScheduled: z.boolean().default(false),
   scheduleStart: z.string().nullable().optional(),
@@ -54,7 +76,16 @@ export const taskSchema = z.object({
     ),
   // ✅ default to [] ensures stability
   subtasks: z.array(subtaskSchema).default([]).optional(),
-  attachments: z.array(z.string()).default([]).optional(),
+  // Paths in file storage (see useFileUploads), or links
+  attachments: z
+    .array(z.string())
+    .max(MAX_ATTACHMENTS, `A task can have at most ${MAX_ATTACHMENTS} attachments.`)
+    .default([])
+    .optional(),
+  recurrence: recurrenceSchema,
+}).refine((data) => !data.recurrence || !!data.dueDate || !!data.scheduleStart, {
+  message: "A repeating task needs a due date or a schedule start.",
+  path: ["recurrence"],
 });
 
 export type TaskFormValues = z.infer<typeof taskSchema>;
@@ -0,0 +1,123 @@
+// src/features/tasks/quickFilters.ts
+import type { DateRange, TaskPredicate } from "@/data";
+import { addDays, startOfWeek, type WeekStart } from "@/lib/dates";
+import {
+  DUE_SOON_DAYS,
+  getDeadlineBetweenPredicate,
+  getDueSoonPredicates,
+  getOverduePredicates,
+} from "./taskDeadlines";
+
+// -----------------------------
+// Quick Filter Presets
+// -----------------------------
+// A preset turns `useTaskStore.quickFilter` into backend predicates. Dates
+// are compared as "YYYY-MM-DD" prefixes, so they work for both date and
+// timestamp columns. Deadline presets are exact to the day; a deadline
+// passing during the day shows on the row (`useTaskDeadlineStatus`), not in
+// which preset lists it. Repeating tasks are listed as their next
+// occurrence; a preset on deadlines lets their series through and names the
+// days that occurrence must be due on in `dueRange`.
+export interface QuickFilterContext {
+  today: string; // "YYYY-MM-DD" in the user's time zone
+  weekStartsOn: WeekStart;
+  currentUserId: string | null;
+}
+
+export interface QuickFilterPreset {
+  id: string; // stored in `quickFilter`
+  label: string;
+  predicates: (ctx: QuickFilterContext) => TaskPredicate[];
+  dueRange?: (ctx: QuickFilterContext) => DateRange; // inclusive days
+}
+
+// Never matches; used when a preset cannot apply (e.g. signed out)
+const matchNothing: TaskPredicate = { field: "id", op: "is", value: null };
+
+export const BUILT_IN_QUICK_FILTERS: QuickFilterPreset[] = [
+  {
+    id: "Due Today",
+    label: "Due Today",
+    predicates: ({ today }) => [getDeadlineBetweenPredicate(today, addDays(today, 1))],
+    dueRange: ({ today }) => ({ from: today, to: today }),
+  },
+  {
+    id: "Due This Week",
+    label: "Due This Week",
+    predicates: ({ today, weekStartsOn }) => {
+      const weekStart = startOfWeek(today, weekStartsOn);
+      return [getDeadlineBetweenPredicate(weekStart, addDays(weekStart, 7))];
+    },
+    dueRange: ({ today, weekStartsOn }) => {
+      const weekStart = startOfWeek(today, weekStartsOn);
+      return { from: weekStart, to: addDays(weekStart, 6) };
+    },
+  },
+  {
+    id: "Due Soon",
+    label: "Due Soon",
+    predicates: ({ today }) => getDueSoonPredicates(today),
+    dueRange: ({ today }) => ({ from: today, to: addDays(today, DUE_SOON_DAYS - 1) }),
+  },
+  {
+    id: "Overdue",
+    label: "Overdue",
+    predicates: ({ today }) => getOverduePredicates(today),
+    dueRange: ({ today }) => ({ to: addDays(today, -1) }),
+  },
+  {
+    id: "Assigned to Me",
+    label: "Assigned to Me",
+    predicates: ({ currentUserId }) =>
+      currentUserId
+        ? [{ field: "assignees", op: "contains", value: [currentUserId] }]
+        : [matchNothing],
+  },
+  {
+    id: "Unassigned",
+    label: "Unassigned",
+    predicates: () => [{ field: "assignees", op: "empty" }],
+  },
+  {
+    id: "No Due Date",
+    label: "No Due Date",
+    predicates: () => [{ field: "dueDate", op: "is", value: null }],
+  },
+];
+
+const registry = new Map<string, QuickFilterPreset>(
+  BUILT_IN_QUICK_FILTERS.map((preset) => [preset.id, preset])
+);
+
+// Add (or replace) a team-specific preset, e.g. at app start-up
+export function registerQuickFilter(preset: QuickFilterPreset) {
+  registry.set(preset.id, preset);
+}
+
+export function unregisterQuickFilter(id: string) {
+  registry.delete(id);
+}
+
+// Presets in registration order, for rendering the quick filter bar
+export function getQuickFilters(): QuickFilterPreset[] {
+  return [...registry.values()];
+}
+
+// Unknown ids (including the legacy "Due Date" default) apply no filter
+export function resolveQuickFilter(
+  id: string | null | undefined,
+  ctx: QuickFilterContext
+): TaskPredicate[] {
+  const preset = id ? registry.get(id) : undefined;
+  return preset ? preset.predicates(ctx) : [];
+}
+
+// The days a listed repeating task's deadline must fall on; null when the
+// preset does not look at deadlines
+export function getQuickFilterDueRange(
+  id: string | null | undefined,
+  ctx: QuickFilterContext
+): DateRange | null {
+  const dueRange = id ? registry.get(id)?.dueRange : undefined;
+  return dueRange ? dueRange(ctx) : null;
+}
@@ -0,0 +1,93 @@
+// src/features/tasks/subtasks.ts
+import type { Subtask, Task } from "@/stores/useTaskStore";
+
+// -----------------------------
+// Subtask Edits
+// -----------------------------
+// `Task.subtasks` is stored on the task row; these return the new array.
+// Subtasks are addressed by id (`TaskForm` gives every subtask one).
+export function createSubtask(title: string): Subtask {
+  return { id: crypto.randomUUID(), title: title.trim(), completed: false };
+}
+
+// Subtasks saved before they had ids get one
+export function withSubtaskIds(subtasks: Partial<Subtask>[]): Subtask[] {
+  return subtasks.map((subtask) => ({
+    id: subtask.id || crypto.randomUUID(),
+    title: subtask.title ?? "",
+    completed: !!subtask.completed,
+  }));
+}
+
+export function toggleSubtask(subtasks: Subtask[], id: string, completed: boolean): Subtask[] {
+  return subtasks.map((subtask) => (subtask.id === id ? { ...subtask, completed } : subtask));
+}
+
+export function addSubtask(subtasks: Subtask[], subtask: Subtask): Subtask[] {
+  return [...subtasks, subtask];
+}
+
+// `toIndex` is the position in the list with the subtask left out
+export function moveSubtask(subtasks: Subtask[], id: string, toIndex: number): Subtask[] {
+  const moved = subtasks.find((subtask) => subtask.id === id);
+  if (!moved) return subtasks;
+  const others = subtasks.filter((subtask) => subtask.id !== id);
+  const index = Math.max(0, Math.min(toIndex, others.length));
+  return [...others.slice(0, index), moved, ...others.slice(index)];
+}
+
+export function removeSubtask(subtasks: Subtask[], id: string): Subtask[] {
+  return subtasks.filter((subtask) => subtask.id !== id);
+}
+
+// -----------------------------
+// Progress Roll-up
+// -----------------------------
+// Percentage of completed subtasks; null when there are none (the task's
+// own `progress` stands)
+export function computeSubtaskProgress(subtasks: Pick<Subtask, "completed">[]): number | null {
+  if (!subtasks.length) return null;
+  return Math.round((subtasks.filter((subtask) => subtask.completed).length / subtasks.length) * 100);
+}
+
+// The `progress` to write with new subtasks: their share, or 100 / 0 by
+// status once the last one is removed (the old share would be stale).
+// undefined for a task that never had any: its own `progress` stands.
+export function getSubtaskProgress(
+  status: Task["status"],
+  previous: Pick<Subtask, "completed">[],
+  subtasks: Pick<Subtask, "completed">[]
+): number | undefined {
+  const progress = computeSubtaskProgress(subtasks);
+  if (progress !== null) return progress;
+  return previous.length ? (status === "Done" ? 100 : 0) : undefined;
+}
+
+// The status the subtasks imply: all done → "Done"; some done, or a "Done"
+// task with an unchecked subtask → "In Progress"; otherwise unchanged
+export function getRolledUpStatus(
+  status: Task["status"],
+  subtasks: Pick<Subtask, "completed">[]
+): Task["status"] {
+  if (!subtasks.length) return status;
+  const done = subtasks.filter((subtask) => subtask.completed).length;
+  if (done === subtasks.length) return "Done";
+  if (done > 0 || status === "Done") return "In Progress";
+  return status;
+}
+
+// The task write for new subtasks: the array, the progress it rolls up to
+// and, with `autoStatus`, the status it implies (left out when unchanged)
+export function planSubtaskUpdate(
+  task: Pick<Task, "status" | "subtasks">,
+  subtasks: Subtask[],
+  { autoStatus = false }: { autoStatus?: boolean } = {}
+): Partial<Task> {
+  const status = autoStatus ? getRolledUpStatus(task.status, subtasks) : task.status;
+  const progress = getSubtaskProgress(status, task.subtasks ?? [], subtasks);
+  return {
+    subtasks,
+    ...(progress !== undefined && { progress }),
+    ...(status !== task.status && { status }),
+  };
+}
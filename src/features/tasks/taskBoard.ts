@@ -0,0 +1,142 @@
+// src/features/tasks/taskBoard.ts
+import type { Task, TaskBoardGroupBy } from "@/stores/useTaskStore";
+import { PRIORITY_RANK, STATUS_RANK } from "./taskSort";
+
+// -----------------------------
+// Board Columns
+// -----------------------------
+export const UNASSIGNED_COLUMN = "unassigned";
+
+export interface TaskBoardColumn {
+  key: string; // status, priority, assignee or UNASSIGNED_COLUMN
+  label: string;
+  tasks: Task[];
+}
+
+const STATUS_COLUMNS = Object.keys(STATUS_RANK) as Task["status"][];
+const PRIORITY_COLUMNS = Object.keys(PRIORITY_RANK) as Task["priority"][];
+
+// A task with several assignees shows up in each of their columns
+function getColumnKeys(task: Task, groupBy: TaskBoardGroupBy): string[] {
+  switch (groupBy) {
+    case "status":
+      return [task.status];
+    case "priority":
+      return [task.priority];
+    case "assignee":
+      return task.assignees.length ? task.assignees : [UNASSIGNED_COLUMN];
+  }
+}
+
+// Each grouping keeps its own order: reordering the assignee board leaves
+// the status board as it was
+export function getBoardRank(task: Task, groupBy: TaskBoardGroupBy): number | null {
+  return task.boardRanks?.[groupBy] ?? null;
+}
+
+export function withBoardRank(task: Task, groupBy: TaskBoardGroupBy, rank: number): Pick<Task, "boardRanks"> {
+  return { boardRanks: { ...task.boardRanks, [groupBy]: rank } };
+}
+
+// Manually ranked tasks first, by rank; the rest keep the list's sort order
+const byBoardRank = (groupBy: TaskBoardGroupBy) => (a: Task, b: Task) => {
+  const [rankA, rankB] = [getBoardRank(a, groupBy), getBoardRank(b, groupBy)];
+  if (rankA === null || rankB === null) return (rankA === null ? 1 : 0) - (rankB === null ? 1 : 0);
+  return rankA - rankB;
+};
+
+// Status and priority boards always show every column; assignee boards show
+// the assignees present, in order of appearance, then "Unassigned"
+export function groupTasksIntoColumns(tasks: Task[], groupBy: TaskBoardGroupBy): TaskBoardColumn[] {
+  const columns = new Map<string, Task[]>();
+  if (groupBy === "status") STATUS_COLUMNS.forEach((key) => columns.set(key, []));
+  if (groupBy === "priority") PRIORITY_COLUMNS.forEach((key) => columns.set(key, []));
+
+  for (const task of tasks) {
+    for (const key of getColumnKeys(task, groupBy)) {
+      if (!columns.has(key)) columns.set(key, []);
+      columns.get(key)!.push(task);
+    }
+  }
+
+  if (groupBy === "assignee" && columns.has(UNASSIGNED_COLUMN)) {
+    const unassigned = columns.get(UNASSIGNED_COLUMN)!;
+    columns.delete(UNASSIGNED_COLUMN);
+    columns.set(UNASSIGNED_COLUMN, unassigned);
+  }
+
+  return [...columns].map(([key, columnTasks]) => ({
+    key,
+    label: key === UNASSIGNED_COLUMN ? "Unassigned" : key,
+    tasks: [...columnTasks].sort(byBoardRank(groupBy)), // stable: ties keep list order
+  }));
+}
+
+// The change that puts a task into another column. Moving between assignee
+// columns swaps that one assignee and leaves the others alone.
+export function getColumnChange(
+  task: Task,
+  groupBy: TaskBoardGroupBy,
+  fromKey: string,
+  toKey: string
+): Partial<Task> {
+  if (fromKey === toKey) return {};
+
+  switch (groupBy) {
+    case "status":
+      return { status: toKey as Task["status"] };
+    case "priority":
+      return { priority: toKey as Task["priority"] };
+    case "assignee": {
+      const others = task.assignees.filter((assignee) => assignee !== fromKey);
+      return { assignees: toKey === UNASSIGNED_COLUMN ? others : [...new Set([...others, toKey])] };
+    }
+  }
+}
+
+// -----------------------------
+// Manual Ranks
+// -----------------------------
+// Ranks are sparse numbers; a dropped task takes the midpoint of its new
+// neighbours, so usually only that task is written. The column is renumbered
+// when a neighbour has no rank yet or the gap has become too small.
+const RANK_STEP = 1024;
+const MIN_RANK_GAP = 1e-6;
+
+// `columnTasks` is the target column as displayed, without the moved task.
+// Returns the `groupBy` rank writes needed, the moved task's first.
+export function planBoardRanks(
+  columnTasks: Task[],
+  taskId: string,
+  toIndex: number,
+  groupBy: TaskBoardGroupBy
+): { id: string; boardRank: number }[] {
+  const index = Math.max(0, Math.min(toIndex, columnTasks.length));
+  const prev = index > 0 ? getBoardRank(columnTasks[index - 1], groupBy) : null;
+  const next = index < columnTasks.length ? getBoardRank(columnTasks[index], groupBy) : null;
+  const neighboursRanked =
+    (index === 0 || prev != null) && (index === columnTasks.length || next != null);
+
+  if (neighboursRanked) {
+    const rank =
+      prev == null && next == null
+        ? RANK_STEP
+        : prev == null
+        ? next! - RANK_STEP
+        : next == null
+        ? prev + RANK_STEP
+        : (prev + next) / 2;
+    if (prev == null || next == null || next - prev > MIN_RANK_GAP) {
+      return [{ id: taskId, boardRank: rank }];
+    }
+  }
+
+  // Renumber the whole column, moved task first in the result
+  const ordered = [...columnTasks.slice(0, index), { id: taskId } as Task, ...columnTasks.slice(index)];
+  const ranks = ordered.map((task, i) => ({ id: task.id, boardRank: (i + 1) * RANK_STEP }));
+  const moved = ranks[index];
+  const others = ranks.filter(
+    (rank, i) => i !== index && getBoardRank(ordered[i], groupBy) !== rank.boardRank
+  );
+  return [moved, ...others];
+}
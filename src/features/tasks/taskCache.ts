@@ -0,0 +1,136 @@
+// src/features/tasks/taskCache.ts
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import type { Task } from "@/stores/useTaskStore";
+import { matchesTaskListParams, type TaskListParams } from "@/data";
+import {
+  findInList,
+  getListParams,
+  getPages,
+  insertIntoList,
+  removeFromList,
+  replaceInList,
+  type ListCacheData,
+} from "@/lib/listCache";
+import { getTaskSortKeys, getTaskSortValue } from "./taskSort";
+
+// -----------------------------
+// Cached Task Queries
+// -----------------------------
+// Task data lives in three kinds of cache entries:
+//   ["tasks", params]             ListResult<Task>            (useFetchTasks)
+//   ["tasks", "infinite", params] InfiniteData<ListResult>    (useInfiniteTasks)
+//   ["task", id]                  Task                        (useFetchTask)
+// These helpers patch them in place so mutations can update the UI before
+// the server answers, and refetch only the lists that cannot be patched.
+type TaskListData = ListCacheData<Task>;
+
+export interface TaskCacheSnapshot {
+  entries: [QueryKey, unknown][];
+}
+
+// A cached task, from its detail entry or any loaded list
+export function findCachedTask(queryClient: QueryClient, id: string): Task | undefined {
+  const detail = queryClient.getQueryData<Task | null>(["task", id]);
+  if (detail) return detail;
+
+  for (const [, data] of queryClient.getQueriesData<TaskListData>({ queryKey: ["tasks"] })) {
+    const task = data && findInList(data, id);
+    if (task) return task;
+  }
+  return undefined;
+}
+
+// Every distinct cached task passing `match`, for when the backend cannot
+// be asked (offline). Only as complete as the lists loaded so far.
+export function findCachedTasks(queryClient: QueryClient, match: (task: Task) => boolean): Task[] {
+  const found = new Map<string, Task>();
+  for (const [, data] of queryClient.getQueriesData<TaskListData>({ queryKey: ["tasks"] })) {
+    if (!data) continue;
+    getPages(data).forEach((page) =>
+      page.items.forEach((task) => match(task) && found.set(task.id, task))
+    );
+  }
+  return [...found.values()];
+}
+
+// Stop in-flight fetches from overwriting the optimistic state, then keep
+// a copy of every entry the mutation may touch
+export async function snapshotTaskCache(
+  queryClient: QueryClient,
+  ids: string | string[]
+): Promise<TaskCacheSnapshot> {
+  const detailKeys = [ids].flat().map((id): QueryKey => ["task", id]);
+  await Promise.all([
+    queryClient.cancelQueries({ queryKey: ["tasks"] }),
+    ...detailKeys.map((queryKey) => queryClient.cancelQueries({ queryKey, exact: true })),
+  ]);
+
+  return {
+    entries: [
+      ...queryClient.getQueriesData({ queryKey: ["tasks"] }),
+      ...detailKeys.map((queryKey): [QueryKey, unknown] => [queryKey, queryClient.getQueryData(queryKey)]),
+    ],
+  };
+}
+
+export function restoreTaskCache(queryClient: QueryClient, snapshot: TaskCacheSnapshot) {
+  snapshot.entries.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+}
+
+// -----------------------------
+// Patching
+// -----------------------------
+function sortPositionChanged(previous: Task, next: Task, params: TaskListParams) {
+  return getTaskSortKeys(params.sortBy, params.sortDirection).some(
+    ({ column }) => getTaskSortValue(previous, column) !== getTaskSortValue(next, column)
+  );
+}
+
+// Write `task` into every cached entry. A list keeps the row in place when it
+// still matches and sorts the same, drops it when it no longer matches, and
+// is returned for refetching when the row would move or newly appear.
+export function writeTaskToCache(queryClient: QueryClient, task: Task): QueryKey[] {
+  const stale: QueryKey[] = [];
+
+  if (queryClient.getQueryData(["task", task.id])) {
+    queryClient.setQueryData(["task", task.id], task);
+  }
+
+  for (const [queryKey, data] of queryClient.getQueriesData<TaskListData>({ queryKey: ["tasks"] })) {
+    if (!data) continue;
+
+    const params = getListParams<TaskListParams>(queryKey);
+    const cached = findInList(data, task.id);
+    const matches = matchesTaskListParams(task, params);
+
+    if (!cached) {
+      if (matches) stale.push(queryKey);
+    } else if (!matches) {
+      queryClient.setQueryData(queryKey, removeFromList(data, task.id));
+    } else {
+      queryClient.setQueryData(queryKey, replaceInList(data, task));
+      if (sortPositionChanged(cached, task, params)) stale.push(queryKey);
+    }
+  }
+
+  return stale;
+}
+
+// Show a task that has no position from the server yet (queued offline) at
+// the top of every cached list it matches
+export function addTaskToCache(queryClient: QueryClient, task: Task) {
+  for (const [queryKey, data] of queryClient.getQueriesData<TaskListData>({ queryKey: ["tasks"] })) {
+    if (data && matchesTaskListParams(task, getListParams<TaskListParams>(queryKey))) {
+      queryClient.setQueryData(queryKey, insertIntoList(data, task));
+    }
+  }
+}
+
+// Drop a task from every cached entry
+export function removeTaskFromCache(queryClient: QueryClient, id: string) {
+  queryClient.removeQueries({ queryKey: ["task", id], exact: true });
+
+  for (const [queryKey, data] of queryClient.getQueriesData<TaskListData>({ queryKey: ["tasks"] })) {
+    if (data) queryClient.setQueryData(queryKey, removeFromList(data, id));
+  }
+}
@@ -0,0 +1,180 @@
+// src/features/tasks/taskDeadlines.ts
+import type { Task } from "@/stores/useTaskStore";
+import type { DateRange, TaskPredicate } from "@/data";
+import { addDays } from "@/lib/dates";
+
+// -----------------------------
+// Task Deadlines
+// -----------------------------
+// Overdue and "due soon" are derived, never stored: a task's deadline is its
+// `dueDate` (the end of that day) or, for scheduled tasks without one, its
+// `scheduleEnd` (the end of an all-day schedule, or the time of a timed one).
+// `now` is the wall-clock "YYYY-MM-DDTHH:mm" in the user's time zone (see
+// `useNow`), so results follow the clock without refetching.
+export type DeadlineStatus = "overdue" | "dueSoon" | "upcoming";
+
+export const DUE_SOON_DAYS = 2; // due today or tomorrow
+
+export interface TaskDeadline {
+  date: string; // "YYYY-MM-DD"
+  time: string | null; // "HH:mm"; null: the end of `date`
+}
+
+export function getTaskDeadline(
+  task: Pick<Task, "dueDate" | "isScheduled" | "scheduleEnd">
+): TaskDeadline | null {
+  if (task.dueDate) return { date: task.dueDate.slice(0, 10), time: null };
+  if (!task.isScheduled || !task.scheduleEnd) return null;
+  const allDay = task.scheduleEnd.length <= 10;
+  return { date: task.scheduleEnd.slice(0, 10), time: allDay ? null : task.scheduleEnd.slice(11, 16) };
+}
+
+// null for tasks without a deadline, and for finished or trashed ones
+export function getDeadlineStatus(
+  task: Pick<Task, "dueDate" | "isScheduled" | "scheduleEnd" | "status" | "deletedAt">,
+  now: string,
+  dueSoonDays = DUE_SOON_DAYS
+): DeadlineStatus | null {
+  const deadline = getTaskDeadline(task);
+  if (!deadline || task.status === "Done" || task.deletedAt) return null;
+
+  const today = now.slice(0, 10);
+  const passed =
+    deadline.date < today ||
+    (deadline.date === today && deadline.time !== null && deadline.time <= now.slice(11, 16));
+  if (passed) return "overdue";
+  return deadline.date < addDays(today, dueSoonDays) ? "dueSoon" : "upcoming";
+}
+
+export function isTaskOverdue(task: Task, now: string): boolean {
+  return getDeadlineStatus(task, now) === "overdue";
+}
+
+export function isTaskDueSoon(task: Task, now: string, dueSoonDays = DUE_SOON_DAYS): boolean {
+  return getDeadlineStatus(task, now, dueSoonDays) === "dueSoon";
+}
+
+// Earliest deadline first; tasks without one last
+export function compareDeadlines(a: Task, b: Task): number {
+  const key = (task: Task) => {
+    const deadline = getTaskDeadline(task);
+    return deadline ? `${deadline.date}T${deadline.time ?? "24:00"}` : "~";
+  };
+  return key(a).localeCompare(key(b));
+}
+
+// Overdue and due-soon tasks, earliest deadline first (the upcoming
+// deadlines widget)
+export function getUpcomingDeadlines(tasks: Task[], now: string, dueSoonDays = DUE_SOON_DAYS): Task[] {
+  return tasks
+    .filter((task) => {
+      const status = getDeadlineStatus(task, now, dueSoonDays);
+      return status === "overdue" || status === "dueSoon";
+    })
+    .sort(compareDeadlines);
+}
+
+// -----------------------------
+// Backend Predicates
+// -----------------------------
+// The same rules for repository queries, exact to the day: a query stays
+// the same all day and the rows it returns do not change as time passes. A
+// timed schedule ending today counts as due today here, even after its time
+// has passed; `getDeadlineStatus` shows it as overdue where the row is drawn.
+const unfinished: TaskPredicate = { field: "status", op: "neq", value: "Done" };
+const scheduledOnly = (predicates: TaskPredicate[]): TaskPredicate => ({
+  op: "and",
+  predicates: [
+    { field: "dueDate", op: "is", value: null },
+    { field: "isScheduled", op: "eq", value: true },
+    ...predicates,
+  ],
+});
+
+// Repeating tasks move on with their occurrences, so their stored dates
+// only say when the series starts. Every series starting before `end` is
+// loaded and narrowed on the occurrence it is listed as (`isDeadlineInRange`).
+const repeating: TaskPredicate = { field: "recurrence", op: "isNot", value: null };
+
+function seriesStartingBefore(end: string): TaskPredicate {
+  return {
+    op: "and",
+    predicates: [
+      repeating,
+      {
+        op: "or",
+        predicates: [
+          { field: "dueDate", op: "lt", value: end },
+          scheduledOnly([{ field: "scheduleStart", op: "lt", value: end }]),
+        ],
+      },
+    ],
+  };
+}
+
+// Whether a listed task's deadline falls on one of the days of `range`
+// (inclusive)
+export function isDeadlineInRange(
+  task: Pick<Task, "dueDate" | "isScheduled" | "scheduleEnd">,
+  { from, to }: DateRange
+): boolean {
+  const deadline = getTaskDeadline(task);
+  return !!deadline && (!from || deadline.date >= from) && (!to || deadline.date <= to);
+}
+
+// Deadline before today
+export function getOverduePredicates(today: string): TaskPredicate[] {
+  return [
+    unfinished,
+    {
+      op: "or",
+      predicates: [
+        { field: "dueDate", op: "lt", value: today },
+        scheduledOnly([{ field: "scheduleEnd", op: "lt", value: today }]),
+        seriesStartingBefore(today),
+      ],
+    },
+  ];
+}
+
+// Deadline before the end of the due-soon window: overdue or due soon
+export function getUpcomingDeadlinePredicates(today: string, dueSoonDays = DUE_SOON_DAYS): TaskPredicate[] {
+  const end = addDays(today, dueSoonDays);
+  return [
+    unfinished,
+    {
+      op: "or",
+      predicates: [
+        { field: "dueDate", op: "lt", value: end },
+        scheduledOnly([{ field: "scheduleEnd", op: "lt", value: end }]),
+        seriesStartingBefore(end),
+      ],
+    },
+  ];
+}
+
+// Deadline on one of the days from `from` up to `toExclusive`
+export function getDeadlineBetweenPredicate(from: string, toExclusive: string): TaskPredicate {
+  return {
+    op: "or",
+    predicates: [
+      {
+        op: "and",
+        predicates: [
+          { field: "dueDate", op: "gte", value: from },
+          { field: "dueDate", op: "lt", value: toExclusive },
+        ],
+      },
+      scheduledOnly([
+        { field: "scheduleEnd", op: "gte", value: from },
+        { field: "scheduleEnd", op: "lt", value: toExclusive },
+      ]),
+      seriesStartingBefore(toExclusive),
+    ],
+  };
+}
+
+// Deadline from today to the end of the due-soon window
+export function getDueSoonPredicates(today: string, dueSoonDays = DUE_SOON_DAYS): TaskPredicate[] {
+  return [unfinished, getDeadlineBetweenPredicate(today, addDays(today, dueSoonDays))];
+}
@@ -0,0 +1,187 @@
+// src/features/tasks/taskDependencies.ts
+import type { Task } from "@/stores/useTaskStore";
+import { daysBetween } from "@/lib/dates";
+
+// -----------------------------
+// Task Dependencies
+// -----------------------------
+// `Task.blockedBy` lists the tasks that must finish first ("book venue"
+// blocks "send invitations"); the "blocks" side is derived from it.
+// `Task.isBlocked` is stored so lists can filter and show it; the data
+// layer recomputes it whenever a task or one of its blockers changes.
+
+// Trashed blockers no longer hold anything up
+export function isUnfinishedBlocker(blocker: Pick<Task, "status" | "deletedAt">): boolean {
+  return blocker.status !== "Done" && !blocker.deletedAt;
+}
+
+// Blockers that are not loaded (or no longer exist) do not count
+export function getUnfinishedBlockers(
+  task: Pick<Task, "blockedBy">,
+  getTask: (id: string) => Task | undefined
+): Task[] {
+  return (task.blockedBy ?? []).flatMap((id) => {
+    const blocker = getTask(id);
+    return blocker && isUnfinishedBlocker(blocker) ? [blocker] : [];
+  });
+}
+
+export function computeIsBlocked(
+  task: Pick<Task, "blockedBy">,
+  getTask: (id: string) => Pick<Task, "status" | "deletedAt"> | undefined
+): boolean {
+  return (task.blockedBy ?? []).some((id) => {
+    const blocker = getTask(id);
+    return !!blocker && isUnfinishedBlocker(blocker);
+  });
+}
+
+// The tasks `taskId` blocks, among `tasks`
+export function getDependents(taskId: string, tasks: Task[]): Task[] {
+  return tasks.filter((task) => task.blockedBy?.includes(taskId));
+}
+
+// -----------------------------
+// Cycle Detection
+// -----------------------------
+// Thrown when a dependency would make a task wait on itself
+export class DependencyCycleError extends Error {
+  cycle: string[]; // empty when the database refused it without naming the loop
+
+  constructor(cycle: string[]) {
+    super("This dependency would create a cycle");
+    this.name = "DependencyCycleError";
+    this.cycle = cycle;
+  }
+}
+
+// The chain of ids `from` → … → `to` following `blockedBy`, or null.
+// `getBlockedBy` returns a task's blockers (empty when unknown).
+export function findBlockerPath(
+  from: string,
+  to: string,
+  getBlockedBy: (id: string) => string[]
+): string[] | null {
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (id === to) {
+      const path: string[] = [];
+      for (let step: string | null = id; step !== null; step = previous.get(step) ?? null) {
+        path.unshift(step);
+      }
+      return path;
+    }
+    for (const blocker of getBlockedBy(id)) {
+      if (previous.has(blocker)) continue;
+      previous.set(blocker, id);
+      queue.push(blocker);
+    }
+  }
+  return null;
+}
+
+// The cycle that giving `taskId` these blockers would close, e.g.
+// [taskId, blocker, …, taskId]; null when there is none
+export function findDependencyCycle(
+  taskId: string,
+  blockedBy: string[],
+  getBlockedBy: (id: string) => string[]
+): string[] | null {
+  for (const blocker of blockedBy) {
+    const path = findBlockerPath(blocker, taskId, (id) => (id === taskId ? [] : getBlockedBy(id)));
+    if (path) return [taskId, ...path];
+  }
+  return null;
+}
+
+// -----------------------------
+// Critical Path
+// -----------------------------
+// Remaining work in days: a schedule counts its calendar days, anything
+// else one day; "Done" tasks count nothing
+export function getTaskDuration(task: Task): number {
+  if (task.status === "Done") return 0;
+  if (task.isScheduled && task.scheduleStart) {
+    return daysBetween(task.scheduleStart, task.scheduleEnd ?? task.scheduleStart) + 1;
+  }
+  return 1;
+}
+
+export interface TaskDependencyGraph {
+  tasks: Task[];
+  edges: { from: string; to: string }[]; // blocker → blocked task, both in `tasks`
+  blockedIds: string[]; // tasks with an unfinished blocker in `tasks`
+  criticalPath: Task[]; // first to last; empty when there is a cycle
+  criticalDuration: number; // days, per `getTaskDuration`
+  cycle: string[] | null; // ids of a cycle found in the stored relations
+}
+
+// Blockers outside `tasks` are left out. The critical path is the chain of
+// dependent tasks with the most remaining work: it sets the earliest finish.
+export function buildTaskDependencyGraph(
+  tasks: Task[],
+  getDuration: (task: Task) => number = getTaskDuration
+): TaskDependencyGraph {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const blockersOf = (task: Task) => (task.blockedBy ?? []).filter((id) => byId.has(id) && id !== task.id);
+
+  const edges = tasks.flatMap((task) => blockersOf(task).map((from) => ({ from, to: task.id })));
+  const blockedIds = tasks
+    .filter((task) => computeIsBlocked({ blockedBy: blockersOf(task) }, (id) => byId.get(id)))
+    .map((task) => task.id);
+
+  // Kahn's algorithm: longest finish per task in topological order
+  const remaining = new Map(tasks.map((task) => [task.id, blockersOf(task).length]));
+  const finish = new Map<string, number>();
+  const via = new Map<string, string | null>();
+  const ready = tasks.filter((task) => remaining.get(task.id) === 0).map((task) => task.id);
+
+  while (ready.length) {
+    const id = ready.shift()!;
+    const task = byId.get(id)!;
+    const [start, from] = blockersOf(task).reduce<[number, string | null]>(
+      (best, blocker) => (finish.get(blocker)! > best[0] ? [finish.get(blocker)!, blocker] : best),
+      [0, null]
+    );
+    finish.set(id, start + getDuration(task));
+    via.set(id, from);
+
+    for (const dependent of edges.filter((edge) => edge.from === id)) {
+      const left = remaining.get(dependent.to)! - 1;
+      remaining.set(dependent.to, left);
+      if (left === 0) ready.push(dependent.to);
+    }
+  }
+
+  // Tasks never ready are on a cycle or wait on one
+  if (finish.size < tasks.length) {
+    let cycle: string[] | null = null;
+    for (const task of tasks) {
+      if (finish.has(task.id)) continue;
+      cycle = findDependencyCycle(task.id, blockersOf(task), (id) =>
+        byId.has(id) ? blockersOf(byId.get(id)!) : []
+      );
+      if (cycle) break;
+    }
+    return { tasks, edges, blockedIds, criticalPath: [], criticalDuration: 0, cycle };
+  }
+
+  let last: string | null = null;
+  for (const [id, days] of finish) {
+    if (last === null || days > finish.get(last)!) last = id;
+  }
+  const criticalPath: Task[] = [];
+  for (let id = last; id !== null; id = via.get(id) ?? null) criticalPath.unshift(byId.get(id)!);
+
+  return {
+    tasks,
+    edges,
+    blockedIds,
+    criticalPath,
+    criticalDuration: last === null ? 0 : finish.get(last)!,
+    cycle: null,
+  };
+}
@@ -0,0 +1,38 @@
+// src/features/tasks/taskFilters.ts
+import type { TaskPredicate } from "@/data";
+import { addDays, toDateInTimeZone } from "@/lib/dates";
+import type { AdvancedFilters } from "@/stores/useUiStore";
+
+// -----------------------------
+// Advanced Filters -> Predicates
+// -----------------------------
+// Advanced filters narrow the basic `useTaskStore` filters (both are ANDed).
+// Assignees use containment: a task must be assigned to every selected member.
+// The date range is inclusive and applies to `dueDate`.
+export function getAdvancedFilterPredicates(
+  filters: AdvancedFilters,
+  timeZone: string
+): TaskPredicate[] {
+  const { advancedStatus, advancedPriority, advancedAssignees, advancedDateRange } = filters;
+  const predicates: TaskPredicate[] = [];
+
+  if (advancedStatus.length) {
+    predicates.push({ field: "status", op: "in", value: advancedStatus });
+  }
+  if (advancedPriority.length) {
+    predicates.push({ field: "priority", op: "in", value: advancedPriority });
+  }
+  if (advancedAssignees.length) {
+    predicates.push({ field: "assignees", op: "contains", value: advancedAssignees });
+  }
+  if (advancedDateRange?.startDate) {
+    const from = toDateInTimeZone(advancedDateRange.startDate, timeZone);
+    predicates.push({ field: "dueDate", op: "gte", value: from });
+  }
+  if (advancedDateRange?.endDate) {
+    const to = toDateInTimeZone(advancedDateRange.endDate, timeZone);
+    predicates.push({ field: "dueDate", op: "lt", value: addDays(to, 1) });
+  }
+
+  return predicates;
+}
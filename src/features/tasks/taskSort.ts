@@ -0,0 +1,85 @@
+// src/features/tasks/taskSort.ts
+import type { Task, TaskStoreState } from "@/stores/useTaskStore";
+
+// -----------------------------
+// Task Ordering
+// -----------------------------
+// Priority and status are stored as text, so ordering on them directly is
+// alphabetical. Ranks give the intended order; the database derives them as
+// generated `priorityRank` / `statusRank` columns so the backend can sort on
+// them (keep both in step, see supabase/migrations).
+export const PRIORITY_RANK: Record<Task["priority"], number> = {
+  Urgent: 0,
+  High: 1,
+  Normal: 2,
+  Low: 3,
+};
+
+export const STATUS_RANK: Record<Task["status"], number> = {
+  "To Do": 0,
+  "In Progress": 1,
+  Done: 2,
+};
+
+export type TaskSortColumn = "dueDate" | "priorityRank" | "statusRank" | "title" | "id";
+
+export interface TaskSortKey {
+  column: TaskSortColumn;
+  ascending: boolean;
+  nullsFirst?: boolean;
+}
+
+const byDueDate = (ascending: boolean): TaskSortKey => ({
+  column: "dueDate",
+  ascending,
+  nullsFirst: false, // tasks without a due date always go last
+});
+const byPriority = (ascending = true): TaskSortKey => ({ column: "priorityRank", ascending });
+const byTitle = (ascending = true): TaskSortKey => ({ column: "title", ascending });
+
+// Primary key for the selected option, then fixed tie-breakers so equal
+// rows keep a stable order across pages. `id` is always the final key.
+export function getTaskSortKeys(
+  sortBy: TaskStoreState["taskSortBy"] | undefined,
+  sortDirection: "asc" | "desc" = "asc"
+): TaskSortKey[] {
+  const ascending = sortDirection === "asc";
+  let keys: TaskSortKey[];
+
+  switch (sortBy) {
+    case "Due Date (Latest)":
+      keys = [byDueDate(false), byPriority(), byTitle()];
+      break;
+    case "Priority (High to Low)":
+      keys = [byPriority(true), byDueDate(true), byTitle()];
+      break;
+    case "Priority (Low to High)":
+      keys = [byPriority(false), byDueDate(true), byTitle()];
+      break;
+    case "Name (A-Z)":
+      keys = [byTitle(true), byDueDate(true)];
+      break;
+    case "Name (Z-A)":
+      keys = [byTitle(false), byDueDate(true)];
+      break;
+    case "Status":
+      keys = [{ column: "statusRank", ascending }, byPriority(), byDueDate(true), byTitle()];
+      break;
+    default:
+      keys = [byDueDate(ascending), byPriority(), byTitle()];
+  }
+
+  return [...keys, { column: "id", ascending: true }];
+}
+
+// Value of a sort column for an in-memory task
+export function getTaskSortValue(task: Task, column: TaskSortColumn) {
+  switch (column) {
+    case "priorityRank":
+      return PRIORITY_RANK[task.priority];
+    case "statusRank":
+      return STATUS_RANK[task.status];
+    default:
+      return task[column];
+  }
+}
@@ -0,0 +1,139 @@
+// src/features/tasks/taskUrlState.ts
+import {
+  useTaskStore,
+  DEFAULT_TASK_VIEW,
+  type Task,
+  type TaskBoardGroupBy,
+  type TaskSortOption,
+  type TaskStoreState,
+  type TaskViewMode,
+} from "@/stores/useTaskStore";
+import { getQuickFilters } from "./quickFilters";
+import {
+  createValueCodes,
+  decodeBoolean,
+  decodeList,
+  encodeBoolean,
+  encodeList,
+  useUrlStateSync,
+  type UrlStateCodec,
+} from "@/lib/urlState";
+
+// -----------------------------
+// URL Codes
+// -----------------------------
+const SORT_CODES = createValueCodes<TaskSortOption>({
+  "Due Date (Earliest)": "due",
+  "Due Date (Latest)": "due-latest",
+  "Priority (High to Low)": "priority",
+  "Priority (Low to High)": "priority-low",
+  "Name (A-Z)": "name",
+  "Name (Z-A)": "name-desc",
+  Status: "status",
+});
+
+const DIRECTION_CODES = createValueCodes<"asc" | "desc">({ asc: "asc", desc: "desc" });
+
+const VIEW_CODES = createValueCodes<TaskViewMode>({
+  "List View": "list",
+  "Board View": "board",
+  "Calendar View": "calendar",
+});
+
+const GROUP_CODES = createValueCodes<TaskBoardGroupBy>({
+  status: "status",
+  priority: "priority",
+  assignee: "assignee",
+});
+
+const STATUS_CODES = createValueCodes<Task["status"]>({
+  "To Do": "todo",
+  "In Progress": "doing",
+  Done: "done",
+});
+
+const PRIORITY_CODES = createValueCodes<Task["priority"]>({
+  Urgent: "urgent",
+  High: "high",
+  Normal: "normal",
+  Low: "low",
+});
+
+// Quick filter ids are labels ("Due This Week"); the URL uses a slug
+const toSlug = (id: string) => id.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+function decodeQuickFilter(raw: string | null): string {
+  const preset = raw ? getQuickFilters().find((p) => toSlug(p.id) === raw) : undefined;
+  return preset?.id ?? DEFAULT_TASK_VIEW.quickFilter;
+}
+
+// -----------------------------
+// Task List Codec
+// -----------------------------
+// e.g. ?q=launch&filter=overdue&sort=priority&status=todo,doing&linked=xyz&task=abc
+export const taskUrlCodec: UrlStateCodec<TaskStoreState> = {
+  fields: {
+    q: "searchKeyword",
+    filter: "quickFilter",
+    sort: "taskSortBy",
+    dir: "taskSortDirection",
+    view: "viewMode",
+    group: "boardGroupBy",
+    status: "filterByStatus",
+    priority: "filterByPriority",
+    linked: "filterByEvent",
+    completed: "showCompletedTasks",
+    personal: "showPersonalTasks",
+    task: "selectedTaskId",
+  },
+  replaceKeys: ["q"],
+
+  encode: (state) => {
+    const defaults = DEFAULT_TASK_VIEW;
+    return {
+      q: state.searchKeyword || undefined,
+      filter:
+        state.quickFilter === defaults.quickFilter ? undefined : toSlug(state.quickFilter),
+      sort:
+        state.taskSortBy === defaults.taskSortBy ? undefined : SORT_CODES.encode(state.taskSortBy),
+      dir:
+        state.taskSortDirection === defaults.taskSortDirection
+          ? undefined
+          : DIRECTION_CODES.encode(state.taskSortDirection),
+      view: state.viewMode === defaults.viewMode ? undefined : VIEW_CODES.encode(state.viewMode),
+      group:
+        state.boardGroupBy === defaults.boardGroupBy
+          ? undefined
+          : GROUP_CODES.encode(state.boardGroupBy),
+      status: encodeList(state.filterByStatus, STATUS_CODES, defaults.filterByStatus),
+      priority: encodeList(state.filterByPriority, PRIORITY_CODES, defaults.filterByPriority),
+      linked: state.filterByEvent ?? undefined,
+      completed: encodeBoolean(state.showCompletedTasks, defaults.showCompletedTasks),
+      personal: encodeBoolean(state.showPersonalTasks, defaults.showPersonalTasks),
+      task: state.selectedTaskId ?? undefined,
+    };
+  },
+
+  decode: (params) => {
+    const defaults = DEFAULT_TASK_VIEW;
+    return {
+      searchKeyword: params.get("q") ?? "",
+      quickFilter: decodeQuickFilter(params.get("filter")),
+      taskSortBy: SORT_CODES.decode(params.get("sort")) ?? defaults.taskSortBy,
+      taskSortDirection: DIRECTION_CODES.decode(params.get("dir")) ?? defaults.taskSortDirection,
+      viewMode: VIEW_CODES.decode(params.get("view")) ?? defaults.viewMode,
+      boardGroupBy: GROUP_CODES.decode(params.get("group")) ?? defaults.boardGroupBy,
+      filterByStatus: decodeList(params.get("status"), STATUS_CODES, defaults.filterByStatus),
+      filterByPriority: decodeList(params.get("priority"), PRIORITY_CODES, defaults.filterByPriority),
+      filterByEvent: params.get("linked") || null,
+      showCompletedTasks: decodeBoolean(params.get("completed"), defaults.showCompletedTasks),
+      showPersonalTasks: decodeBoolean(params.get("personal"), defaults.showPersonalTasks),
+      selectedTaskId: params.get("task") || null,
+    };
+  },
+};
+
+// Mount once on the Tasks page
+export function useTaskUrlSync() {
+  useUrlStateSync(useTaskStore, taskUrlCodec);
+}
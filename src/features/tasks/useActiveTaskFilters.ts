@@ -0,0 +1,147 @@
+// src/features/tasks/useActiveTaskFilters.ts
+import { toDateInTimeZone } from "@/lib/dates";
+import { useUiStore } from "@/stores/useUiStore";
+import { useTaskStore, DEFAULT_TASK_VIEW } from "@/stores/useTaskStore";
+
+// -----------------------------
+// Active Filter Chips
+// -----------------------------
+export interface FilterChip {
+  id: string;
+  label: string;
+  remove: () => void;
+}
+
+const without = <T,>(list: T[], value: T) => list.filter((item) => item !== value);
+
+// Every filter that currently narrows the task list, basic and advanced,
+// as removable chips. Pass `getAssigneeName` / `getEventName` to show member
+// and event names.
+export function useActiveTaskFilters(
+  getAssigneeName: (id: string) => string = (id) => id,
+  getEventName: (id: string) => string = (id) => id
+): { chips: FilterChip[]; clearAll: () => void } {
+  const {
+    searchKeyword,
+    quickFilter,
+    filterByStatus,
+    filterByPriority,
+    filterByEvent,
+    showCompletedTasks,
+    showPersonalTasks,
+    setTaskFilters,
+  } = useTaskStore();
+  const advancedFilters = useUiStore((s) => s.advancedFilters);
+  const setAdvancedFilters = useUiStore((s) => s.setAdvancedFilters);
+  const clearAdvancedFilters = useUiStore((s) => s.clearAdvancedFilters);
+  const timeZone = useUiStore((s) => s.timeZone);
+
+  const chips: FilterChip[] = [];
+
+  // Basic filters
+  if (searchKeyword) {
+    chips.push({
+      id: "search",
+      label: `Search: "${searchKeyword}"`,
+      remove: () => setTaskFilters({ searchKeyword: "" }),
+    });
+  }
+  if (quickFilter && quickFilter !== DEFAULT_TASK_VIEW.quickFilter) {
+    chips.push({
+      id: "quickFilter",
+      label: quickFilter,
+      remove: () => setTaskFilters({ quickFilter: DEFAULT_TASK_VIEW.quickFilter }),
+    });
+  }
+  // An empty selection is no filter (see `useTaskListParams`)
+  if (filterByStatus.length && filterByStatus.length < DEFAULT_TASK_VIEW.filterByStatus.length) {
+    chips.push({
+      id: "status",
+      label: `Status: ${filterByStatus.join(", ")}`,
+      remove: () => setTaskFilters({ filterByStatus: DEFAULT_TASK_VIEW.filterByStatus }),
+    });
+  }
+  if (filterByPriority.length && filterByPriority.length < DEFAULT_TASK_VIEW.filterByPriority.length) {
+    chips.push({
+      id: "priority",
+      label: `Priority: ${filterByPriority.join(", ")}`,
+      remove: () => setTaskFilters({ filterByPriority: DEFAULT_TASK_VIEW.filterByPriority }),
+    });
+  }
+  if (filterByEvent) {
+    chips.push({
+      id: "event",
+      label: `Event: ${getEventName(filterByEvent)}`,
+      remove: () => setTaskFilters({ filterByEvent: null }),
+    });
+  }
+  if (!showCompletedTasks) {
+    chips.push({
+      id: "hideCompleted",
+      label: "Hiding completed",
+      remove: () => setTaskFilters({ showCompletedTasks: true }),
+    });
+  }
+  if (!showPersonalTasks) {
+    chips.push({
+      id: "hidePersonal",
+      label: "Hiding personal",
+      remove: () => setTaskFilters({ showPersonalTasks: true }),
+    });
+  }
+
+  // Advanced filters, one chip per selected value
+  const { advancedStatus, advancedPriority, advancedAssignees, advancedDateRange } =
+    advancedFilters;
+
+  advancedStatus.forEach((status) =>
+    chips.push({
+      id: `advancedStatus:${status}`,
+      label: `Status: ${status}`,
+      remove: () => setAdvancedFilters({ advancedStatus: without(advancedStatus, status) }),
+    })
+  );
+  advancedPriority.forEach((priority) =>
+    chips.push({
+      id: `advancedPriority:${priority}`,
+      label: `Priority: ${priority}`,
+      remove: () =>
+        setAdvancedFilters({ advancedPriority: without(advancedPriority, priority) }),
+    })
+  );
+  advancedAssignees.forEach((assignee) =>
+    chips.push({
+      id: `advancedAssignees:${assignee}`,
+      label: `Assignee: ${getAssigneeName(assignee)}`,
+      remove: () =>
+        setAdvancedFilters({ advancedAssignees: without(advancedAssignees, assignee) }),
+    })
+  );
+
+  const start = advancedDateRange?.startDate;
+  const end = advancedDateRange?.endDate;
+  if (start || end) {
+    const from = start && toDateInTimeZone(start, timeZone);
+    const to = end && toDateInTimeZone(end, timeZone);
+    chips.push({
+      id: "advancedDateRange",
+      label: from && to ? `Due: ${from} – ${to}` : from ? `Due from ${from}` : `Due until ${to}`,
+      remove: () => setAdvancedFilters({ advancedDateRange: null }),
+    });
+  }
+
+  const clearAll = () => {
+    setTaskFilters({
+      searchKeyword: "",
+      quickFilter: DEFAULT_TASK_VIEW.quickFilter,
+      filterByStatus: DEFAULT_TASK_VIEW.filterByStatus,
+      filterByPriority: DEFAULT_TASK_VIEW.filterByPriority,
+      filterByEvent: null,
+      showCompletedTasks: true,
+      showPersonalTasks: true,
+    });
+    clearAdvancedFilters();
+  };
+
+  return { chips, clearAll };
+}
@@ -0,0 +1,146 @@
+// src/features/tasks/useTaskDependencies.ts
+import { useMemo } from "react";
+import { useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import { useEventTasks, type Task } from "@/stores/useTaskStore";
+import { withLocalWrite } from "@/stores/useRealtimeStore";
+import { isQueued, updateOrQueue } from "@/stores/useOfflineQueueStore";
+import { recordChange, updatedChange } from "@/stores/useUndoStore";
+import { refetchExact } from "@/lib/listCache";
+import { getRepositories, isNetworkError } from "@/data";
+import { findCachedTask, writeTaskToCache } from "./taskCache";
+import {
+  buildTaskDependencyGraph,
+  computeIsBlocked,
+  DependencyCycleError,
+  findDependencyCycle,
+} from "./taskDependencies";
+
+// -----------------------------
+// Dependency Mutations
+// -----------------------------
+// Tasks reachable from `ids` through `blockedBy`, for cycle checks. Cached
+// rows are used first; offline, only the cache is searched.
+async function loadBlockers(queryClient: QueryClient, ids: string[]): Promise<Map<string, Task>> {
+  const loaded = new Map<string, Task>();
+  const seen = new Set<string>();
+  let frontier = ids;
+
+  while (frontier.length) {
+    const next = frontier.filter((id) => !seen.has(id));
+    next.forEach((id) => seen.add(id));
+    if (!next.length) break;
+
+    const cached = next.flatMap((id) => findCachedTask(queryClient, id) ?? []);
+    const missing = next.filter((id) => !cached.some((task) => task.id === id));
+    let fetched: Task[] = [];
+    if (missing.length) {
+      try {
+        fetched = (await getRepositories().tasks.list({ where: [{ field: "id", op: "in", value: missing }] })).items;
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+      }
+    }
+
+    [...cached, ...fetched].forEach((task) => loaded.set(task.id, task));
+    frontier = [...cached, ...fetched].flatMap((task) => task.blockedBy ?? []);
+  }
+  return loaded;
+}
+
+async function loadTask(queryClient: QueryClient, id: string) {
+  return findCachedTask(queryClient, id) ?? getRepositories().tasks.getById(id);
+}
+
+interface DependencyChange {
+  taskId: string;
+  blockerId: string; // the task that must be done first
+}
+
+function useDependencyWrite({
+  toBlockedBy,
+  successMessage,
+  errorMessage,
+}: {
+  toBlockedBy: (current: string[], blockerId: string) => string[];
+  successMessage: string;
+  errorMessage: string;
+}) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ taskId, blockerId }: DependencyChange) => {
+      const previous = await loadTask(queryClient, taskId);
+      const blockedBy = toBlockedBy(previous.blockedBy ?? [], blockerId);
+
+      const added = blockedBy.filter((id) => !previous.blockedBy?.includes(id));
+      if (added.includes(taskId)) throw new DependencyCycleError([taskId, taskId]);
+      if (added.length) {
+        const blockers = await loadBlockers(queryClient, added);
+        const cycle = findDependencyCycle(taskId, added, (id) => blockers.get(id)?.blockedBy ?? []);
+        if (cycle) throw new DependencyCycleError(cycle);
+      }
+
+      const task = await withLocalWrite("tasks", taskId, () =>
+        updateOrQueue("tasks", taskId, { blockedBy }, previous)
+      );
+      // Queued writes skip the data layer; derive the flag from the cache
+      const isBlocked = isQueued("tasks", taskId)
+        ? computeIsBlocked(task, (id) => findCachedTask(queryClient, id))
+        : task.isBlocked;
+      return { previous, task: { ...task, isBlocked }, data: { blockedBy } };
+    },
+    networkMode: "always", // queued while offline
+    onSuccess: ({ previous, task, data }) => {
+      recordChange(
+        isQueued("tasks", task.id) ? `${successMessage} (pending sync)` : successMessage,
+        updatedChange("tasks", previous, data)
+      );
+      refetchExact(queryClient, writeTaskToCache(queryClient, task));
+    },
+    onError: (err) => {
+      console.error(err);
+      if (err instanceof DependencyCycleError) {
+        const titles = err.cycle.map((id) => findCachedTask(queryClient, id)?.title ?? "a task");
+        toast.error(
+          err.cycle.length === 2
+            ? "A task cannot wait on itself"
+            : err.cycle.length
+            ? `${err.message}: ${titles.map((title) => `"${title}"`).join(" → ")}`
+            : err.message // refused by the database, the loop is unknown
+        );
+        return;
+      }
+      toast.error(errorMessage);
+    },
+  });
+}
+
+// `blockerId` must be done before `taskId`; refused if it closes a cycle
+export function useAddTaskDependency() {
+  return useDependencyWrite({
+    toBlockedBy: (current, blockerId) => (current.includes(blockerId) ? current : [...current, blockerId]),
+    successMessage: "Dependency added",
+    errorMessage: "Failed to add dependency",
+  });
+}
+
+export function useRemoveTaskDependency() {
+  return useDependencyWrite({
+    toBlockedBy: (current, blockerId) => current.filter((id) => id !== blockerId),
+    successMessage: "Dependency removed",
+    errorMessage: "Failed to remove dependency",
+  });
+}
+
+// -----------------------------
+// Dependency Graph
+// -----------------------------
+// An event's tasks with their blocker edges, blocked tasks and critical
+// path (see `buildTaskDependencyGraph`)
+export function useTaskDependencyGraph(eventId?: string | null) {
+  const query = useEventTasks(eventId);
+  const tasks = query.data?.items;
+  const graph = useMemo(() => buildTaskDependencyGraph(tasks ?? []), [tasks]);
+  return { ...query, graph };
+}
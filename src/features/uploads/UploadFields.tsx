@@ -0,0 +1,159 @@
+// src/features/uploads/UploadFields.tsx
+import React, { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import type { useFileUploads, FileUpload } from "./useFileUploads";
+import { formatFileSize, getFileName, getFileUrl, getThumbnailUrl } from "./uploads";
+
+// -----------------------------
+// Upload Fields
+// -----------------------------
+// Controlled fields for TaskForm (attachments) and EventForm (cover image).
+// The form owns the `useFileUploads` state so it can commit or discard the
+// uploads with the save.
+type FileUploads = ReturnType<typeof useFileUploads>;
+
+const FilePicker: React.FC<{
+  accept: string[];
+  multiple?: boolean;
+  label: string;
+  uploads: FileUploads;
+  disabled?: boolean;
+}> = ({ accept, multiple, label, uploads, disabled }) => {
+  const input = useRef<HTMLInputElement>(null);
+  return (
+    <>
+      <input
+        ref={input}
+        type="file"
+        className="hidden"
+        accept={accept.join(",")}
+        multiple={multiple}
+        onChange={(e) => {
+          if (e.target.files?.length) uploads.add(e.target.files);
+          e.target.value = ""; // the same file can be picked again
+        }}
+      />
+      <Button type="button" variant="link" className="text-blue-600 text-sm" disabled={disabled} onClick={() => input.current?.click()}>
+        {label}
+      </Button>
+    </>
+  );
+};
+
+const UploadRow: React.FC<{ upload: FileUpload; onCancel: () => void }> = ({ upload, onCancel }) => (
+  <li className="flex items-center gap-3 rounded-md border p-2 text-sm">
+    {upload.thumbnail ? (
+      <img src={upload.thumbnail} alt="" className="h-10 w-10 rounded object-cover" />
+    ) : (
+      <span className="flex h-10 w-10 items-center justify-center rounded bg-gray-100">📄</span>
+    )}
+    <div className="min-w-0 flex-1">
+      <p className="truncate">{upload.name}</p>
+      {upload.error ? (
+        <p className="text-red-500">{upload.error}</p>
+      ) : (
+        <div className="mt-1 h-1.5 rounded bg-gray-200">
+          <div className="h-1.5 rounded bg-blue-500" style={{ width: `${upload.progress}%` }} />
+        </div>
+      )}
+    </div>
+    <span className="text-gray-500">{formatFileSize(upload.size)}</span>
+    <Button type="button" variant="ghost" onClick={onCancel}>
+      {upload.error ? "Dismiss" : "Cancel"}
+    </Button>
+  </li>
+);
+
+interface AttachmentsFieldProps {
+  value: string[];
+  onChange: (attachments: string[]) => void;
+  uploads: FileUploads;
+  accept: string[];
+  max: number;
+  disabled?: boolean;
+}
+
+export const AttachmentsField: React.FC<AttachmentsFieldProps> = ({ value, onChange, uploads, accept, max, disabled }) => {
+  const remove = (ref: string) => {
+    onChange(value.filter((item) => item !== ref));
+    uploads.release(ref);
+  };
+
+  return (
+    <div>
+      <ul className="space-y-2">
+        {value.map((ref) => {
+          const thumbnail = getThumbnailUrl(ref);
+          return (
+            <li key={ref} className="flex items-center gap-3 rounded-md border p-2 text-sm">
+              {thumbnail ? (
+                <img src={thumbnail} alt="" className="h-10 w-10 rounded object-cover" />
+              ) : (
+                <span className="flex h-10 w-10 items-center justify-center rounded bg-gray-100">📄</span>
+              )}
+              <a href={getFileUrl(ref)} target="_blank" rel="noreferrer" className="min-w-0 flex-1 truncate text-blue-600">
+                {getFileName(ref)}
+              </a>
+              <Button type="button" variant="ghost" className="text-red-500 hover:text-red-700" disabled={disabled} onClick={() => remove(ref)}>
+                🗑
+              </Button>
+            </li>
+          );
+        })}
+        {uploads.uploads.map((upload) => (
+          <UploadRow key={upload.id} upload={upload} onCancel={() => uploads.cancel(upload.id)} />
+        ))}
+      </ul>
+      {value.length + uploads.uploads.length < max && (
+        <FilePicker accept={accept} multiple label="+ Attach Files" uploads={uploads} disabled={disabled} />
+      )}
+    </div>
+  );
+};
+
+interface CoverImageFieldProps {
+  value?: string | null;
+  onChange: (coverImage: string) => void;
+  uploads: FileUploads;
+  accept: string[];
+  disabled?: boolean;
+}
+
+// Picking a new image replaces the current one
+export const CoverImageField: React.FC<CoverImageFieldProps> = ({ value, onChange, uploads, accept, disabled }) => {
+  const upload = uploads.uploads[uploads.uploads.length - 1];
+
+  return (
+    <div className="space-y-2">
+      {upload ? (
+        <ul>
+          <UploadRow upload={upload} onCancel={() => uploads.cancel(upload.id)} />
+        </ul>
+      ) : (
+        value && <img src={getFileUrl(value)} alt="" className="h-32 w-full rounded-md object-cover" />
+      )}
+      <div className="flex gap-2">
+        <FilePicker
+          accept={accept}
+          label={value ? "Replace Image" : "+ Upload Image"}
+          uploads={uploads}
+          disabled={disabled || uploads.isUploading}
+        />
+        {value && (
+          <Button
+            type="button"
+            variant="link"
+            className="text-red-500 text-sm"
+            disabled={disabled}
+            onClick={() => {
+              onChange("");
+              uploads.release(value);
+            }}
+          >
+            Remove
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+// src/features/uploads/fileSchema.ts
+import { z } from "zod";
+import { formatFileSize, matchesFileType } from "./uploads";
+
+// A picked file (`File`), checked before it is uploaded. `types` holds MIME
+// types and wildcards ("image/*").
+export function fileSchema(types: string[], maxSize: number) {
+  return z
+    .object({
+      name: z.string(),
+      type: z.string(),
+      size: z.number(),
+    })
+    .refine((file) => matchesFileType(file, types), {
+      message: "This file type is not supported.",
+    })
+    .refine((file) => file.size > 0, {
+      message: "This file is empty.",
+    })
+    .refine((file) => file.size <= maxSize, {
+      message: `Files must be ${formatFileSize(maxSize)} or smaller.`,
+    });
+}
@@ -0,0 +1,134 @@
+// src/features/uploads/uploads.ts
+import { getRepositories, type FileUrlOptions } from "@/data";
+
+// -----------------------------
+// File References
+// -----------------------------
+// `Task.attachments` and `Event.coverImage` hold paths in file storage
+// ("tasks/<folder>/report.pdf"). Values saved before uploads existed are
+// links ("https://…") and are shown as they are.
+export type StorageFolder = "tasks" | "events";
+
+export function isStoredFile(ref: string | null | undefined): ref is string {
+  return !!ref && !/^[a-z][a-z\d+.-]*:/i.test(ref);
+}
+
+// Letters and digits without accents, runs of anything else as "-"
+function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Each upload gets its own folder, so files with the same name never clash.
+// Storage keys and PostgREST filters are only safe with plain ASCII, so the
+// stored name is a slug of the picked one ("Q3 Report (final).pdf" becomes
+// "Q3-Report-final.pdf"); `getFileName` shows that slug.
+export function toStoragePath(folder: StorageFolder, fileName: string): string {
+  const name = fileName.trim();
+  const dot = name.lastIndexOf(".");
+  const base = slugify(dot > 0 ? name.slice(0, dot) : name) || "file";
+  const extension = dot > 0 ? slugify(name.slice(dot + 1)) : "";
+  return `${folder}/${crypto.randomUUID()}/${base}${extension ? `.${extension}` : ""}`;
+}
+
+export function getFileName(ref: string): string {
+  const last = ref.split(/[?#]/)[0].split("/").filter(Boolean).pop() ?? ref;
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last;
+  }
+}
+
+export function getFileUrl(ref: string, options?: FileUrlOptions): string {
+  return isStoredFile(ref) ? getRepositories().files.getUrl(ref, options) : ref;
+}
+
+// Stored paths in `previous` that `next` no longer has
+export function getRemovedFiles(
+  previous: (string | null | undefined)[],
+  next: (string | null | undefined)[]
+): string[] {
+  return previous.filter((ref): ref is string => isStoredFile(ref) && !next.includes(ref));
+}
+
+// -----------------------------
+// File Types
+// -----------------------------
+// Browsers leave `File.type` empty for some files; the extension decides then
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  csv: "text/csv",
+  md: "text/markdown",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  zip: "application/zip",
+};
+
+export function getFileType(file: { name: string; type?: string }): string {
+  if (file.type) return file.type;
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_TYPES[extension] ?? "application/octet-stream";
+}
+
+// `types` holds MIME types and wildcards ("image/*")
+export function matchesFileType(file: { name: string; type?: string }, types: string[]): boolean {
+  const type = getFileType(file);
+  return types.some((accepted) =>
+    accepted.endsWith("/*") ? type.startsWith(accepted.slice(0, -1)) : type === accepted
+  );
+}
+
+export function isImageFile(file: { name: string; type?: string }): boolean {
+  return getFileType(file).startsWith("image/");
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${+(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// -----------------------------
+// Thumbnails
+// -----------------------------
+export const THUMBNAIL_SIZE = 160; // px, longest side
+
+// Stored images are resized by the storage backend where it can
+export function getThumbnailUrl(ref: string): string | null {
+  if (!isImageFile({ name: getFileName(ref) })) return null;
+  return getFileUrl(ref, { width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE });
+}
+
+// A local preview of an image being uploaded (an object URL the caller
+// revokes); null for other files or images the browser cannot decode
+export async function createThumbnail(file: File, size = THUMBNAIL_SIZE): Promise<string | null> {
+  if (!isImageFile(file)) return null;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+    return blob ? URL.createObjectURL(blob) : null;
+  } catch {
+    return null;
+  }
+}
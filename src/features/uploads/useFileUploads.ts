@@ -0,0 +1,190 @@
+// src/features/uploads/useFileUploads.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import type { ZodTypeAny } from "zod";
+import { getRepositories, isNetworkError } from "@/data";
+import { useUndoStore } from "@/stores/useUndoStore";
+import type { Task } from "@/stores/useTaskStore";
+import type { Event } from "@/stores/useEventStore";
+import { createThumbnail, isStoredFile, toStoragePath, type StorageFolder } from "./uploads";
+
+// -----------------------------
+// Files Kept for Undo
+// -----------------------------
+// Undoing a save writes the old `attachments` / `coverImage` back, so a file
+// taken out of a form stays in storage while a history entry still refers
+// to it, and is deleted once the entry drops off the undo and redo stacks.
+const heldFiles = new Set<string>();
+
+function deleteFiles(paths: string[]) {
+  if (!paths.length) return;
+  getRepositories().files.removeUnused(paths).catch((err) => console.error(err));
+}
+
+function getFilesInHistory(): Set<string> {
+  const { past, future } = useUndoStore.getState();
+  const files = new Set<string>();
+  for (const entry of [...past, ...future]) {
+    for (const operation of [...entry.undo, ...entry.redo]) {
+      if (operation.type === "delete") continue;
+      const fields = (operation.type === "create" ? operation.record : operation.data) as Partial<
+        Pick<Task, "attachments"> & Pick<Event, "coverImage">
+      >;
+      [...(fields.attachments ?? []), fields.coverImage].forEach((ref) => isStoredFile(ref) && files.add(ref));
+    }
+  }
+  return files;
+}
+
+useUndoStore.subscribe((state, previous) => {
+  if (!heldFiles.size || (state.past === previous.past && state.future === previous.future)) return;
+  const inHistory = getFilesInHistory();
+  const expired = [...heldFiles].filter((path) => !inHistory.has(path));
+  expired.forEach((path) => heldFiles.delete(path));
+  deleteFiles(expired);
+});
+
+// Deletes `paths` now, or once no history entry refers to them
+function removeFiles(paths: Iterable<string>) {
+  const inHistory = getFilesInHistory();
+  const now: string[] = [];
+  for (const path of paths) {
+    if (inHistory.has(path)) heldFiles.add(path);
+    else now.push(path);
+  }
+  deleteFiles(now);
+}
+
+// -----------------------------
+// Form Uploads
+// -----------------------------
+// Files picked in a form are uploaded right away and handed to the form as
+// storage paths; the row only refers to them once the form is saved. Files
+// that never get saved are deleted again, and saved files taken out of the
+// form are deleted once the save goes through (`commit`) and no undo entry
+// can bring them back.
+export interface FileUpload {
+  id: string;
+  name: string;
+  size: number;
+  progress: number; // 0–100
+  thumbnail: string | null; // local preview of images (object URL)
+  error: string | null;
+}
+
+interface UseFileUploadsOptions {
+  folder: StorageFolder;
+  schema: ZodTypeAny; // checks each picked file (`attachmentFileSchema`, …)
+  onUploaded: (path: string) => void;
+}
+
+export function useFileUploads({ folder, schema, onUploaded }: UseFileUploadsOptions) {
+  const [uploads, setUploads] = useState<FileUpload[]>([]);
+  const unsaved = useRef(new Set<string>()); // uploaded here, not saved yet
+  const released = useRef(new Set<string>()); // saved files taken out of the form
+  const controllers = useRef(new Map<string, AbortController>());
+
+  // Kept current so an upload finishing after a re-render reaches the form
+  const onUploadedRef = useRef(onUploaded);
+  onUploadedRef.current = onUploaded;
+
+  const patch = useCallback((id: string, changes: Partial<FileUpload>) => {
+    setUploads((list) => list.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)));
+  }, []);
+
+  const drop = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    controllers.current.delete(id);
+    setUploads((list) => {
+      const upload = list.find((item) => item.id === id);
+      if (upload?.thumbnail) URL.revokeObjectURL(upload.thumbnail);
+      return list.filter((item) => item.id !== id);
+    });
+  }, []);
+
+  const start = useCallback(
+    (file: File) => {
+      const id = crypto.randomUUID();
+      const controller = new AbortController();
+      controllers.current.set(id, controller);
+      setUploads((list) => [
+        ...list,
+        { id, name: file.name, size: file.size, progress: 0, thumbnail: null, error: null },
+      ]);
+      createThumbnail(file).then((thumbnail) => {
+        if (!thumbnail) return;
+        if (controller.signal.aborted) URL.revokeObjectURL(thumbnail);
+        else patch(id, { thumbnail });
+      });
+
+      getRepositories()
+        .files.upload(toStoragePath(folder, file.name), file, {
+          signal: controller.signal,
+          onProgress: ({ loaded, total }) => patch(id, { progress: total ? Math.round((loaded / total) * 100) : 100 }),
+        })
+        .then((path) => {
+          if (controller.signal.aborted) {
+            removeFiles([path]);
+            return;
+          }
+          unsaved.current.add(path);
+          drop(id);
+          onUploadedRef.current(path);
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          console.error(err);
+          const message = isNetworkError(err) ? "Uploads need a connection" : "Upload failed";
+          patch(id, { error: message });
+          toast.error(`${message}: "${file.name}"`);
+        });
+    },
+    [folder, patch, drop]
+  );
+
+  // Files failing `schema` are skipped with a toast
+  const add = useCallback(
+    (files: FileList | File[]) => {
+      for (const file of Array.from(files)) {
+        const result = schema.safeParse(file);
+        if (result.success) start(file);
+        else toast.error(`"${file.name}": ${result.error.issues[0]?.message ?? "This file cannot be uploaded."}`);
+      }
+    },
+    [schema, start]
+  );
+
+  // The form no longer refers to `path`
+  const release = useCallback((path: string) => {
+    if (unsaved.current.delete(path)) removeFiles([path]);
+    else if (isStoredFile(path)) released.current.add(path);
+  }, []);
+
+  // After the form was saved
+  const commit = useCallback(() => {
+    removeFiles(released.current);
+    released.current.clear();
+    unsaved.current.clear();
+  }, []);
+
+  // Closing without saving (also on unmount)
+  const discard = useCallback(() => {
+    controllers.current.forEach((controller) => controller.abort());
+    controllers.current.clear();
+    removeFiles(unsaved.current);
+    unsaved.current.clear();
+    released.current.clear();
+  }, []);
+
+  useEffect(() => discard, [discard]);
+
+  return {
+    uploads,
+    isUploading: uploads.some((upload) => !upload.error),
+    add,
+    cancel: drop, // stops an upload, or dismisses a failed one
+    release,
+    commit,
+    discard,
+  };
+}
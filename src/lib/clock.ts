@@ -0,0 +1,56 @@
+// src/lib/clock.ts
+import { useSyncExternalStore } from "react";
+import { toDateTimeInTimeZone } from "./dates";
+
+// -----------------------------
+// Minute Clock
+// -----------------------------
+// One timer for the whole app, ticking on the minute while anything listens.
+// Derived time state (overdue tasks, "today") re-renders from it instead of
+// being refetched. Tabs in the background get throttled timers, so the clock
+// also catches up when the tab becomes visible again.
+const MINUTE = 60_000;
+
+const listeners = new Set<() => void>();
+let current = Math.floor(Date.now() / MINUTE) * MINUTE;
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+function tick() {
+  const minute = Math.floor(Date.now() / MINUTE) * MINUTE;
+  if (minute !== current) {
+    current = minute;
+    listeners.forEach((listener) => listener());
+  }
+  timer = setTimeout(tick, MINUTE - (Date.now() % MINUTE));
+}
+
+function onVisibilityChange() {
+  if (document.visibilityState !== "visible") return;
+  clearTimeout(timer);
+  tick();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  if (listeners.size === 1) {
+    tick();
+    document.addEventListener("visibilitychange", onVisibilityChange);
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size) return;
+    clearTimeout(timer);
+    document.removeEventListener("visibilitychange", onVisibilityChange);
+  };
+}
+
+// The current minute (epoch ms)
+export function useMinute(): number {
+  return useSyncExternalStore(subscribe, () => current, () => current);
+}
+
+// Wall-clock "YYYY-MM-DDTHH:mm" in `timeZone`, updated every minute; the
+// first 10 characters are today's date there
+export function useNow(timeZone: string): string {
+  return toDateTimeInTimeZone(new Date(useMinute()), timeZone);
+}
@@ -0,0 +1,127 @@
+// src/lib/dates.ts
+
+// -----------------------------
+// Calendar Date Helpers
+// -----------------------------
+// Calendar dates are handled as "YYYY-MM-DD" strings. Arithmetic runs in UTC
+// so that adding days never drifts across DST changes; the user's time zone
+// only matters when deciding what "today" is.
+export type WeekStart = 0 | 1; // 0 = Sunday, 1 = Monday
+
+export function getDefaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Calendar date of an instant as seen in the given IANA time zone
+export function toDateInTimeZone(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value;
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
+
+export function todayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  return toDateInTimeZone(now, timeZone);
+}
+
+function toUtcDate(date: string): Date {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  const d = toUtcDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toDateString(d);
+}
+
+// 0 = Sunday … 6 = Saturday
+export function getWeekday(date: string): number {
+  return toUtcDate(date).getUTCDay();
+}
+
+export function startOfWeek(date: string, weekStartsOn: WeekStart): string {
+  const offset = (getWeekday(date) - weekStartsOn + 7) % 7;
+  return addDays(date, -offset);
+}
+
+export function startOfMonth(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+export function endOfMonth(date: string): string {
+  const d = toUtcDate(date);
+  return toDateString(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)));
+}
+
+export function addMonths(date: string, months: number): string {
+  const d = toUtcDate(date);
+  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d.getUTCDate(), lastDay)); // Jan 31 + 1 month = Feb 28/29
+  return toDateString(target);
+}
+
+// Whole days from `from` to `to` (negative when `to` is earlier)
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtcDate(to).getTime() - toUtcDate(from).getTime()) / 86_400_000);
+}
+
+// Every calendar date from `from` to `to`, inclusive
+export function eachDay(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) days.push(day);
+  return days;
+}
+
+// -----------------------------
+// Wall-clock Date-Times
+// -----------------------------
+// "YYYY-MM-DDTHH:mm" as entered in `datetime-local` inputs: a time on the
+// user's calendar with no zone attached. Same UTC trick as above.
+function toUtcDateTime(dateTime: string): Date {
+  return new Date(`${dateTime.slice(0, 16)}:00Z`);
+}
+
+export function addMinutes(dateTime: string, minutes: number): string {
+  const d = toUtcDateTime(dateTime);
+  d.setUTCMinutes(d.getUTCMinutes() + minutes);
+  return d.toISOString().slice(0, 16);
+}
+
+export function minutesBetween(from: string, to: string): number {
+  return Math.round((toUtcDateTime(to).getTime() - toUtcDateTime(from).getTime()) / 60_000);
+}
+
+// Wall-clock date-time of an instant as seen in the given IANA time zone
+export function toDateTimeInTimeZone(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value;
+  return `${get("year")}-${get("month")}-${get("day")}T${get("hour")}:${get("minute")}`;
+}
+
+// The instant a wall-clock date-time in `timeZone` refers to. Throws a
+// RangeError for unknown zones.
+export function fromDateTimeInTimeZone(dateTime: string, timeZone: string): Date {
+  const wall = toUtcDateTime(dateTime);
+  const offset = (d: Date) =>
+    toUtcDateTime(toDateTimeInTimeZone(d, timeZone)).getTime() - d.getTime();
+  // Second pass picks up a DST change between the guess and the result
+  const guess = new Date(wall.getTime() - offset(wall));
+  return new Date(wall.getTime() - offset(guess));
+}
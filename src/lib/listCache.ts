@@ -0,0 +1,75 @@
+// src/lib/listCache.ts
+import type { InfiniteData, QueryClient, QueryKey } from "@tanstack/react-query";
+import type { ListResult } from "@/data";
+
+// -----------------------------
+// Cached List Helpers
+// -----------------------------
+// List hooks cache either one page (`[root, params]`) or every loaded page
+// of an infinite query (`[root, "infinite", params]`).
+export type ListCacheData<T> = ListResult<T> | InfiniteData<ListResult<T>>;
+
+const isInfinite = <T>(data: ListCacheData<T>): data is InfiniteData<ListResult<T>> =>
+  "pages" in data;
+
+export const getPages = <T>(data: ListCacheData<T>) => (isInfinite(data) ? data.pages : [data]);
+
+export function getListParams<P>(queryKey: QueryKey): P {
+  return (queryKey[1] === "infinite" ? queryKey[2] : queryKey[1]) as P;
+}
+
+export function mapPages<T>(
+  data: ListCacheData<T>,
+  fn: (page: ListResult<T>) => ListResult<T>
+): ListCacheData<T> {
+  return isInfinite(data) ? { ...data, pages: data.pages.map(fn) } : fn(data);
+}
+
+export function findInList<T extends { id: string }>(data: ListCacheData<T>, id: string) {
+  for (const page of getPages(data)) {
+    const row = page.items.find((item) => item.id === id);
+    if (row) return row;
+  }
+  return undefined;
+}
+
+export function replaceInList<T extends { id: string }>(data: ListCacheData<T>, row: T) {
+  return mapPages(data, (page) => ({
+    ...page,
+    items: page.items.map((item) => (item.id === row.id ? row : item)),
+  }));
+}
+
+// Put a row at the top of the first page (e.g. one not saved yet)
+export function insertIntoList<T extends { id: string }>(
+  data: ListCacheData<T>,
+  row: T
+): ListCacheData<T> {
+  if (findInList(data, row.id)) return replaceInList(data, row);
+
+  return mapPages(data, (page) => ({
+    ...page,
+    items: page === getPages(data)[0] ? [row, ...page.items] : page.items,
+    totalCount: page.totalCount + 1,
+  }));
+}
+
+export function removeFromList<T extends { id: string }>(
+  data: ListCacheData<T>,
+  id: string
+): ListCacheData<T> {
+  if (!findInList(data, id)) return data;
+
+  // Every page carries the total, so each one drops by one
+  return mapPages(data, (page) => ({
+    ...page,
+    items: page.items.filter((item) => item.id !== id),
+    totalCount: page.totalCount - 1,
+  }));
+}
+
+// Refetch exactly these entries (each once), leaving the rest of the cache alone
+export function refetchExact(queryClient: QueryClient, queryKeys: QueryKey[]) {
+  const unique = new Map(queryKeys.map((queryKey) => [JSON.stringify(queryKey), queryKey]));
+  unique.forEach((queryKey) => queryClient.invalidateQueries({ queryKey, exact: true }));
+}
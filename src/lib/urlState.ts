@@ -0,0 +1,142 @@
+// src/lib/urlState.ts
+import { useEffect } from "react";
+import type { StoreApi } from "zustand";
+
+// -----------------------------
+// Value Codes
+// -----------------------------
+// Short, URL-friendly codes for a closed set of values, e.g.
+// "Priority (High to Low)" <-> "priority". Unknown codes decode to undefined.
+export interface ValueCodes<V extends string> {
+  values: V[];
+  encode: (value: V) => string;
+  decode: (code: string | null) => V | undefined;
+}
+
+export function createValueCodes<V extends string>(codes: Record<V, string>): ValueCodes<V> {
+  const values = Object.keys(codes) as V[];
+  const byCode = new Map(values.map((value) => [codes[value], value]));
+  return {
+    values,
+    encode: (value) => codes[value],
+    decode: (code) => (code === null ? undefined : byCode.get(code)),
+  };
+}
+
+// -----------------------------
+// Param Encoding
+// -----------------------------
+// Values equal to their default are left out of the URL, so a clean URL
+// means "defaults" and links stay short.
+const sameSet = <V>(a: V[], b: V[]) =>
+  a.length === b.length && a.every((value) => b.includes(value));
+
+export function encodeList<V extends string>(
+  values: V[],
+  codes: ValueCodes<V>,
+  defaults: V[]
+): string | undefined {
+  return sameSet(values, defaults) ? undefined : values.map(codes.encode).join(",");
+}
+
+// `""` is an explicit empty selection; a list with no known codes falls back
+export function decodeList<V extends string>(
+  raw: string | null,
+  codes: ValueCodes<V>,
+  defaults: V[]
+): V[] {
+  if (raw === null) return [...defaults];
+  if (raw === "") return [];
+
+  const values = raw
+    .split(",")
+    .map(codes.decode)
+    .filter((value): value is V => value !== undefined);
+  return values.length ? [...new Set(values)] : [...defaults];
+}
+
+export function encodeBoolean(value: boolean, defaultValue: boolean): string | undefined {
+  return value === defaultValue ? undefined : value ? "1" : "0";
+}
+
+export function decodeBoolean(raw: string | null, defaultValue: boolean): boolean {
+  if (raw === "1") return true;
+  if (raw === "0") return false;
+  return defaultValue;
+}
+
+// -----------------------------
+// Store <-> URL Sync
+// -----------------------------
+export interface UrlStateCodec<T> {
+  fields: Record<string, keyof T>; // search params owned by this codec -> the field each holds; others are left alone
+  replaceKeys?: string[]; // changes to only these keys replace the history entry (e.g. typed search)
+  encode: (state: T) => Record<string, string | undefined>;
+  decode: (params: URLSearchParams) => Partial<T>; // every owned field; invalid values -> defaults
+}
+
+function readOwnedParams(keys: string[]): Record<string, string> {
+  const params = new URLSearchParams(window.location.search);
+  return Object.fromEntries(
+    keys.filter((key) => params.has(key)).map((key) => [key, params.get(key)!])
+  );
+}
+
+function withoutUndefined(encoded: Record<string, string | undefined>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(encoded).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
+}
+
+function writeOwnedParams(keys: string[], params: Record<string, string>, mode: "push" | "replace") {
+  const url = new URL(window.location.href);
+  keys.forEach((key) => url.searchParams.delete(key));
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  url.search = url.search.replace(/%2C/gi, ","); // keep lists readable: status=todo,doing
+
+  if (mode === "push") {
+    window.history.pushState(window.history.state, "", url);
+  } else {
+    window.history.replaceState(window.history.state, "", url);
+  }
+}
+
+// Two-way sync between a store and the URL search params:
+// - on mount, the owned params in the URL win over the store (pasted links);
+//   fields without a param keep their store (e.g. persisted) value, and the
+//   result is written back to the URL
+// - every store change updates the URL, pushing a history entry
+// - back/forward (`popstate`) restores the store from the URL
+export function useUrlStateSync<T>(store: StoreApi<T>, codec: UrlStateCodec<T>) {
+  useEffect(() => {
+    const keys = Object.keys(codec.fields);
+    const readState = () => codec.decode(new URLSearchParams(window.location.search));
+
+    const present = Object.keys(readOwnedParams(keys));
+    if (present.length) {
+      const state = readState();
+      const fields = present.map((key) => codec.fields[key]);
+      store.setState(Object.fromEntries(fields.map((field) => [field, state[field]])) as Partial<T>);
+    }
+    // Also rewrites invalid values in a pasted link to their canonical form
+    writeOwnedParams(keys, withoutUndefined(codec.encode(store.getState())), "replace");
+
+    const unsubscribe = store.subscribe((state) => {
+      const next = withoutUndefined(codec.encode(state));
+      const current = readOwnedParams(keys);
+      const changed = keys.filter((key) => next[key] !== current[key]);
+      if (!changed.length) return;
+
+      const replaceOnly = changed.every((key) => codec.replaceKeys?.includes(key));
+      writeOwnedParams(keys, next, replaceOnly ? "replace" : "push");
+    });
+
+    const onPopState = () => store.setState(readState());
+    window.addEventListener("popstate", onPopState);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("popstate", onPopState);
+    };
+  }, [store, codec]);
+}
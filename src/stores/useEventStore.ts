@@ -1,10 +1,65 @@
 // src/stores/useEventStore.ts
+import { useCallback, useEffect } from "react";
 import { create } from "zustand";
 import { devtools } from "zustand/middleware";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+  type UseInfiniteQueryResult,
+} from "@tanstack/react-query";
 import { toast } from "react-hot-toast";
 import { useUiStore } from "./useUiStore";
-import { supabase } from "@/lib/supabaseClient";
+import { withLocalWrite } from "./useRealtimeStore";
+import type { Task } from "./useTaskStore";
+import {
+  createOrQueue,
+  isQueued,
+  removeOrQueue,
+  updateOrQueue,
+} from "./useOfflineQueueStore";
+import { combineChanges, createdChange, recordChange, updatedChange } from "./useUndoStore";
+import {
+  addEventToCache,
+  findCachedEvent,
+  removeEventFromCache,
+  restoreEventCache,
+  snapshotEventCache,
+  writeEventToCache,
+} from "@/features/events/eventCache";
+import { findCachedTasks, writeTaskToCache } from "@/features/tasks/taskCache";
+import { getListedCount, isNarrowedPage, toListOccurrences } from "@/features/recurrence/recurrence";
+import { refetchExact } from "@/lib/listCache";
+import {
+  EVENT_PROGRESS_LABELS,
+  EVENT_PROGRESS_THRESHOLDS,
+  type EventProgressLabel,
+} from "@/features/events/eventProgress";
+import {
+  addDays,
+  endOfMonth,
+  startOfMonth,
+  startOfWeek,
+  todayInTimeZone,
+  type WeekStart,
+} from "@/lib/dates";
+import {
+  getRepositories,
+  listAll,
+  listAllResult,
+  DEFAULT_PAGE_SIZE,
+  type PageParams,
+  type DateRange,
+  type EventListParams,
+  type ListResult,
+  type NumberRange,
+  type TaskListParams,
+  isNetworkError,
+  matchesTaskListParams,
+} from "@/data";
 
 // -----------------------------
 // Type Definitions
@@ -19,24 +74,51 @@ export interface Event {
   startTime?: string | null;
   endTime?: string | null;
   description: string;
-  coverImage?: string | null;
+  coverImage?: string | null; // path in file storage, or a link
   color: string;
   participants: string[];
-  progress: number;
+  progress: number; // % of linked tasks done, maintained by the data layer
   created_at?: string;
   updated_at?: string;
+  deleted_at?: string | null; // set while the event is in the trash
+  recurrence?: string | null; // RRULE, e.g. "FREQ=MONTHLY" (see features/recurrence)
+  recurrenceExceptions?: string[] | null; // occurrence dates removed or edited separately
+  seriesId?: string | null; // set on an occurrence edited separately
+  occurrenceDate?: string | null; // the occurrence it stands for
 }
 
+export type EventDateBucket = "Past" | "This Week" | "This Month" | "Future";
+
+export const EVENT_DATE_BUCKETS: EventDateBucket[] = [
+  "Past",
+  "This Week",
+  "This Month",
+  "Future",
+];
+
+export interface EventFilterState {
+  searchKeyword: string;
+  eventSortBy: string;
+  eventSortDirection: "asc" | "desc";
+  filterByProgress: EventProgressLabel[];
+  filterByProgressValue: NumberRange | null; // e.g. { min: 25, max: 75 }
+  filterByDate: EventDateBucket[];
+}
+
+export const DEFAULT_EVENT_FILTERS: EventFilterState = {
+  searchKeyword: "",
+  eventSortBy: "startDate",
+  eventSortDirection: "asc",
+  filterByProgress: [...EVENT_PROGRESS_LABELS],
+  filterByProgressValue: null,
+  filterByDate: [...EVENT_DATE_BUCKETS],
+};
+
 // -----------------------------
 // Zustand Store (Local UI State)
 // -----------------------------
-export interface EventStoreState {
+export interface EventStoreState extends EventFilterState {
   selectedEventId: string | null;
-  searchKeyword: string;
-  eventSortBy: string;
-  eventSortDirection: "asc" | "desc";
-  filterByProgress: string[];
-  filterByDate: string[];
   totalCount: number;
   showingCount: number;
 
@@ -49,12 +131,8 @@ export interface EventStoreState {
 
 export const useEventStore = create<EventStoreState>()(
   devtools((set) => ({
+    ...DEFAULT_EVENT_FILTERS,
     selectedEventId: null,
-    searchKeyword: "",
-    eventSortBy: "startDate",
-    eventSortDirection: "asc",
-    filterByProgress: ["Not Started", "In Progress", "Completed"],
-    filterByDate: ["Past", "This Week", "This Month", "Future"],
     totalCount: 0,
     showingCount: 0,
 
@@ -67,91 +145,270 @@ export const useEventStore = create<EventStoreState>()(
 );
 
 // -----------------------------
-// Supabase API Helpers
+// Data Access (see src/data)
 // -----------------------------
 
-async function fetchEvents(params: {
-  search?: string;
-  sortBy?: string;
-  sortDirection?: "asc" | "desc";
-  progress?: string;
-}) {
-  let query = supabase.from("events").select("*");
+async function fetchEvents(params: EventListParams) {
+  return getRepositories().events.list(params);
+}
 
-  // Search
-  if (params.search) {
-    query = query.ilike("title", `%${params.search}%`);
-  }
+async function fetchEventById(id: string) {
+  return getRepositories().events.getById(id);
+}
 
-  // Filter by progress
-  if (params.progress) {
-    const progressArray = params.progress.split(",");
-    query = query.in("progress", progressArray);
-  }
+// Writes are queued while offline (see useOfflineQueueStore)
+async function createEvent(data: Partial<Event>) {
+  return createOrQueue("events", data);
+}
 
-  // Sorting
-  if (params.sortBy) {
-    const ascending = params.sortDirection === "asc";
-    query = query.order(params.sortBy, { ascending });
-  }
+async function updateEvent(id: string, data: Partial<Event>, base?: Event) {
+  return updateOrQueue("events", id, data, base);
+}
 
-  const { data, error } = await query;
-  if (error) throw error;
-  return data as Event[];
+// Permanent; deleting from the UI moves events to the trash (`deleted_at`)
+async function purgeEvent(id: string) {
+  return removeOrQueue("events", id);
 }
 
-async function createEvent(data: Partial<Event>) {
-  const { data: result, error } = await supabase
-    .from("events")
-    .insert(data)
-    .select()
-    .single();
+async function loadEvent(queryClient: QueryClient, id: string) {
+  return findCachedEvent(queryClient, id) ?? fetchEventById(id);
+}
+
+// Tasks linked to an event (`eventId`): untrashed ones, or those trashed at
+// `trashedAt`. Offline, the cached tasks stand in.
+async function fetchLinkedTasks(queryClient: QueryClient, eventId: string, trashedAt?: string | null) {
+  const params: TaskListParams = {
+    trashed: !!trashedAt,
+    where: [
+      { field: "eventId", op: "eq", value: eventId },
+      ...(trashedAt ? [{ field: "deletedAt" as const, op: "eq" as const, value: trashedAt }] : []),
+    ],
+  };
 
-  if (error) throw error;
-  return result as Event;
+  try {
+    return await listAll(getRepositories().tasks.list, params);
+  } catch (err) {
+    if (!isNetworkError(err)) throw err;
+    return findCachedTasks(queryClient, (task) => matchesTaskListParams(task, params));
+  }
 }
 
-async function updateEvent(id: string, data: Partial<Event>) {
-  const { data: result, error } = await supabase
-    .from("events")
-    .update(data)
-    .eq("id", id)
-    .select()
-    .single();
+// -----------------------------
+// Filter Mapping
+// -----------------------------
+// Translate a bucket into the calendar-date range an event must overlap,
+// relative to `today` in the user's time zone.
+export function getDateBucketRange(
+  bucket: EventDateBucket,
+  today: string,
+  weekStartsOn: WeekStart
+): DateRange {
+  switch (bucket) {
+    case "Past":
+      return { to: addDays(today, -1) };
+    case "This Week": {
+      const from = startOfWeek(today, weekStartsOn);
+      return { from, to: addDays(from, 6) };
+    }
+    case "This Month":
+      return { from: startOfMonth(today), to: endOfMonth(today) };
+    case "Future":
+      return { from: addDays(today, 1) };
+  }
+}
 
-  if (error) throw error;
-  return result as Event;
+// Selecting every label (or none) means "no progress filter"
+function toProgressRanges(labels: EventProgressLabel[]): NumberRange[] | undefined {
+  if (labels.length === 0 || labels.length === EVENT_PROGRESS_LABELS.length) {
+    return undefined;
+  }
+  return labels.map((label) => EVENT_PROGRESS_THRESHOLDS[label]);
 }
 
-async function deleteEvent(id: string) {
-  const { error } = await supabase.from("events").delete().eq("id", id);
-  if (error) throw error;
-  return id;
+// Selecting every bucket (or none) means "no date filter"
+function toDateRanges(
+  buckets: EventDateBucket[],
+  today: string,
+  weekStartsOn: WeekStart
+): DateRange[] | undefined {
+  if (buckets.length === 0 || buckets.length === EVENT_DATE_BUCKETS.length) {
+    return undefined;
+  }
+  return buckets.map((bucket) => getDateBucketRange(bucket, today, weekStartsOn));
 }
 
 // -----------------------------
 // React Query Hooks
 // -----------------------------
-export function useFetchEvents() {
+// Current filter/sort state mapped to repository params; also used as the
+// query key and by the .ics export
+export function useEventListParams(): EventListParams {
   const {
     searchKeyword,
     eventSortBy,
     eventSortDirection,
     filterByProgress,
+    filterByProgressValue,
+    filterByDate,
   } = useEventStore();
+  const weekStartsOn = useUiStore((s) => s.weekStartsOn);
+  const timeZone = useUiStore((s) => s.timeZone);
+  const today = todayInTimeZone(timeZone);
+
+  return {
+    search: searchKeyword,
+    sortBy: eventSortBy,
+    sortDirection: eventSortDirection,
+    progress: toProgressRanges(filterByProgress),
+    progressBetween: filterByProgressValue,
+    dateRanges: toDateRanges(filterByDate, today, weekStartsOn),
+  };
+}
+
+// Keep `totalCount` / `showingCount` in the store in sync with the latest result
+function useSyncEventCounts(totalCount?: number, showingCount?: number) {
+  const setEventFilters = useEventStore((s) => s.setEventFilters);
+
+  useEffect(() => {
+    if (totalCount === undefined || showingCount === undefined) return;
+    setEventFilters({ totalCount, showingCount });
+  }, [totalCount, showingCount, setEventFilters]);
+}
+
+// Load the next page right away while the last one was narrowed to a few
+// rows (see `isNarrowedPage`), so the list does not stall on it
+function useLoadPastNarrowedPage(query: UseInfiniteQueryResult<InfiniteData<ListResult<Event>, number>>) {
+  const { data, isFetchingNextPage, isFetchNextPageError, fetchNextPage } = query;
+  const lastPage = data?.pages[data.pages.length - 1];
+  const narrowed = !!lastPage && isNarrowedPage(lastPage);
+
+  useEffect(() => {
+    if (narrowed && !isFetchingNextPage && !isFetchNextPageError) fetchNextPage();
+  }, [narrowed, isFetchingNextPage, isFetchNextPageError, fetchNextPage]);
+}
+
+// Repeating events are listed once: their first occurrence in the date
+// filter's ranges, or their next one. The cache keeps the stored rows. A series
+// with no occurrence in the ranges is dropped but stays in `totalCount`.
+function useSelectOccurrences(dateRanges?: DateRange[]) {
+  const today = todayInTimeZone(useUiStore((s) => s.timeZone));
+  const rangesKey = JSON.stringify(dateRanges ?? null); // rebuilt every render
+  return useCallback(
+    (result: ListResult<Event>) =>
+      toListOccurrences("events", result, today, JSON.parse(rangesKey) ?? undefined),
+    [today, rangesKey]
+  );
+}
+
+export function useFetchEvents({ page = 1, pageSize = DEFAULT_PAGE_SIZE }: PageParams = {}) {
+  const params = { ...useEventListParams(), page, pageSize };
+  const filterByDate = useEventStore((s) => s.filterByDate);
+  const selectOccurrences = useSelectOccurrences(params.dateRanges);
 
+  const query = useQuery({
+    queryKey: ["events", { ...params, filterByDate }],
+    queryFn: () => fetchEvents(params),
+    placeholderData: (prev) => prev,
+    select: selectOccurrences,
+  });
+
+  useSyncEventCounts(getListedCount(query.data ? [query.data] : []), query.data?.items.length);
+  return query;
+}
+
+// Infinite-scrolling variant for the event list
+export function useInfiniteEvents(pageSize = DEFAULT_PAGE_SIZE) {
+  const params = { ...useEventListParams(), pageSize };
+  const filterByDate = useEventStore((s) => s.filterByDate);
+  const selectOccurrences = useSelectOccurrences(params.dateRanges);
+  const selectPages = useCallback(
+    (data: InfiniteData<ListResult<Event>, number>) => ({
+      ...data,
+      pages: data.pages.map(selectOccurrences),
+    }),
+    [selectOccurrences]
+  );
+
+  const query = useInfiniteQuery({
+    queryKey: ["events", "infinite", { ...params, filterByDate }],
+    queryFn: ({ pageParam }) => fetchEvents({ ...params, page: pageParam }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => lastPage.nextPage,
+    select: selectPages,
+  });
+
+  const pages = query.data?.pages;
+  useSyncEventCounts(
+    getListedCount(pages ?? []),
+    pages?.reduce((sum, p) => sum + p.items.length, 0)
+  );
+  useLoadPastNarrowedPage(query);
+  return query;
+}
+
+export function useFetchEvent(eventId?: string | null) {
   return useQuery({
-    queryKey: [
-      "events",
-      { searchKeyword, eventSortBy, eventSortDirection, filterByProgress },
-    ],
-    queryFn: () =>
-      fetchEvents({
-        search: searchKeyword,
-        sortBy: eventSortBy,
-        sortDirection: eventSortDirection,
-        progress: filterByProgress.join(","),
-      }),
+    queryKey: ["event", eventId],
+    queryFn: () => (eventId ? fetchEventById(eventId) : null),
+    enabled: !!eventId,
+  });
+}
+
+// Events in the trash, most recently trashed first
+export function useTrashedEvents({ page = 1, pageSize = DEFAULT_PAGE_SIZE }: PageParams = {}) {
+  const params: EventListParams = {
+    trashed: true,
+    sortBy: "deleted_at",
+    sortDirection: "desc",
+    page,
+    pageSize,
+  };
+  return useQuery({
+    queryKey: ["events", params],
+    queryFn: () => fetchEvents(params),
+    placeholderData: (prev) => prev,
+  });
+}
+
+// Every event overlapping the range, loaded a page at a time, for the
+// calendar. Ignores the event list filters; kept under ["events", …] so
+// updates patch it in place.
+export function useCalendarEvents(range: DateRange) {
+  const params: EventListParams = {
+    dateRanges: [range],
+    sortBy: "startDate",
+    sortDirection: "asc",
+  };
+  return useQuery({
+    queryKey: ["events", params],
+    queryFn: () => listAllResult(fetchEvents, params),
+    placeholderData: (prev) => prev,
+  });
+}
+
+// Every untrashed event by title, for pickers (e.g. linking a task). Ignores
+// the event list filters; repeating events are listed once.
+export function useEventOptions() {
+  const params: EventListParams = { sortBy: "title", sortDirection: "asc" };
+  return useQuery({
+    queryKey: ["events", params],
+    queryFn: () => listAllResult(fetchEvents, params),
+    select: (result) => result.items,
+  });
+}
+
+// Untrashed tasks linked to an event, e.g. to ask what to do with them when
+// it is deleted (see `useEventTasks` for the tasks themselves)
+export function useLinkedTaskCount(eventId?: string | null) {
+  const params: TaskListParams = {
+    where: [{ field: "eventId", op: "eq", value: eventId ?? "" }],
+    pageSize: 1,
+  };
+  return useQuery({
+    queryKey: ["tasks", params],
+    queryFn: () => getRepositories().tasks.list(params),
+    enabled: !!eventId,
+    select: (result) => result.totalCount,
   });
 }
 
@@ -161,9 +418,19 @@ export function useCreateEvent() {
 
   return useMutation({
     mutationFn: createEvent,
-    onSuccess: () => {
-      toast.success("Event created successfully!");
-      queryClient.invalidateQueries({ queryKey: ["events"] });
+    networkMode: "always", // queued while offline
+    onSuccess: (event) => {
+      if (isQueued("events", event.id)) {
+        recordChange("Event saved offline, it will sync when you're back online", createdChange("events", event));
+        addEventToCache(queryClient, {
+          ...event,
+          progress: event.progress ?? 0,
+          participants: event.participants ?? [],
+        });
+      } else {
+        recordChange("Event created successfully!", createdChange("events", event));
+        queryClient.invalidateQueries({ queryKey: ["events"] });
+      }
       closeModal();
     },
     onError: (err) => {
@@ -179,10 +446,19 @@ export function useUpdateEvent() {
 
   return useMutation({
     mutationFn: ({ id, data }: { id: string; data: Partial<Event> }) =>
-      updateEvent(id, data),
-    onSuccess: () => {
-      toast.success("Event updated successfully!");
-      queryClient.invalidateQueries({ queryKey: ["events"] });
+      withLocalWrite("events", id, () => updateEvent(id, data, findCachedEvent(queryClient, id))),
+    networkMode: "always", // queued while offline
+    onMutate: ({ id }) => ({ previous: findCachedEvent(queryClient, id) }),
+    onSuccess: (event, { id, data }, context) => {
+      const change = updatedChange("events", context?.previous, data);
+      if (isQueued("events", id)) {
+        recordChange("Event updated (pending sync)", change);
+        refetchExact(queryClient, writeEventToCache(queryClient, event));
+      } else {
+        recordChange("Event updated successfully!", change);
+        queryClient.invalidateQueries({ queryKey: ["events"] });
+        queryClient.invalidateQueries({ queryKey: ["event", id] });
+      }
       closeModal();
     },
     onError: (err) => {
@@ -192,14 +468,206 @@ export function useUpdateEvent() {
   });
 }
 
+// Moves an event on the calendar: patched in the cache right away, rolled
+// back if the update fails
+export function useRescheduleEvent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Event> }) =>
+      withLocalWrite("events", id, () => updateEvent(id, data, findCachedEvent(queryClient, id))),
+    networkMode: "always", // queued while offline
+    onMutate: async ({ id, data }) => {
+      const snapshot = await snapshotEventCache(queryClient, id);
+      const previous = findCachedEvent(queryClient, id);
+      const stale = previous ? writeEventToCache(queryClient, { ...previous, ...data, id }) : [];
+      return { snapshot, stale, previous };
+    },
+    onSuccess: (event, { id, data }, context) => {
+      recordChange(
+        isQueued("events", id) ? "Event rescheduled (pending sync)" : "Event rescheduled",
+        updatedChange("events", context?.previous, data)
+      );
+      refetchExact(queryClient, [...(context?.stale ?? []), ...writeEventToCache(queryClient, event)]);
+    },
+    onError: (err, _variables, context) => {
+      console.error(err);
+      if (context) restoreEventCache(queryClient, context.snapshot);
+      toast.error("Failed to reschedule event");
+    },
+  });
+}
+
+// Trashing and restoring. What happens to the event's untrashed tasks when
+// it is trashed:
+// * "cascade": trashed too, with the same `deleted_at` / `deletedAt` stamp,
+//   so restoring the event brings back exactly the tasks trashed with it
+// * "detach": unlinked (`eventId: null`); undo links them again
+// * "block": nothing is written if the event still has tasks
+// The event is written first. Task writes that fail after it are reported
+// with the result rather than failing the whole change; what was written is
+// recorded as one undoable change.
+export type EventTaskPolicy = "cascade" | "detach" | "block";
+
+// Thrown when deleting an event with the "block" policy
+export class LinkedTasksError extends Error {
+  taskCount: number;
+
+  constructor(taskCount: number) {
+    super(`The event still has ${taskCount} task${taskCount === 1 ? "" : "s"}; trash or unlink them first`);
+    this.name = "LinkedTasksError";
+    this.taskCount = taskCount;
+  }
+}
+
+interface EventTrashResult {
+  event: Event;
+  tasks: Task[];
+  taskChange: Partial<Task>; // written to every task in `tasks`
+  policy: EventTaskPolicy;
+  previous: { event: Event; tasks: Task[] };
+  failed: { task: Task; error: unknown }[]; // left as they were
+}
+
+const TASK_WRITE_CONCURRENCY = 10;
+
+async function setEventTrashed(
+  queryClient: QueryClient,
+  id: string,
+  deletedAt: string | null,
+  policy: EventTaskPolicy
+): Promise<EventTrashResult> {
+  const event = await loadEvent(queryClient, id);
+
+  // Trashing takes the untrashed tasks; restoring, those trashed with the event
+  const trashedWith = deletedAt ? null : event.deleted_at;
+  const linked =
+    deletedAt || (policy === "cascade" && trashedWith)
+      ? await fetchLinkedTasks(queryClient, id, trashedWith)
+      : [];
+  if (deletedAt && policy === "block" && linked.length) throw new LinkedTasksError(linked.length);
+
+  const taskChange: Partial<Task> = policy === "detach" ? { eventId: null } : { deletedAt };
+  const changed = policy === "block" ? [] : linked;
+
+  const trashed = await withLocalWrite("events", id, () =>
+    updateEvent(id, { deleted_at: deletedAt }, event)
+  );
+  const result: EventTrashResult = {
+    event: trashed,
+    tasks: [],
+    taskChange,
+    policy,
+    previous: { event, tasks: [] },
+    failed: [],
+  };
+  for (let i = 0; i < changed.length; i += TASK_WRITE_CONCURRENCY) {
+    const batch = changed.slice(i, i + TASK_WRITE_CONCURRENCY);
+    const settled = await Promise.allSettled(
+      batch.map((task) =>
+        withLocalWrite("tasks", task.id, () => updateOrQueue("tasks", task.id, taskChange, task))
+      )
+    );
+    settled.forEach((outcome, j) => {
+      if (outcome.status === "fulfilled") {
+        result.tasks.push(outcome.value);
+        result.previous.tasks.push(batch[j]);
+      } else {
+        result.failed.push({ task: batch[j], error: outcome.reason });
+      }
+    });
+  }
+  return result;
+}
+
+function useEventTrashMutation<TVariables>({
+  run,
+  successMessage,
+  failureMessage,
+  errorMessage,
+}: {
+  run: (queryClient: QueryClient, variables: TVariables) => Promise<EventTrashResult>;
+  successMessage: (result: EventTrashResult) => string;
+  failureMessage: (result: EventTrashResult) => string; // "Couldn't trash 2 tasks"
+  errorMessage: string;
+}) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (variables: TVariables) => run(queryClient, variables),
+    networkMode: "always", // queued while offline
+    onSuccess: (result) => {
+      const { event, tasks, taskChange, previous } = result;
+      const message = successMessage(result);
+      recordChange(
+        isQueued("events", event.id) ? `${message} (pending sync)` : message,
+        combineChanges([
+          updatedChange("events", previous.event, { deleted_at: event.deleted_at ?? null }),
+          ...previous.tasks.map((task) => updatedChange("tasks", task, taskChange)),
+        ])
+      );
+      // Moves them between the regular lists and the trash
+      refetchExact(queryClient, [
+        ...writeEventToCache(queryClient, event),
+        ...tasks.flatMap((task) => writeTaskToCache(queryClient, task)),
+      ]);
+      if (result.failed.length) {
+        result.failed.forEach(({ error }) => console.error(error));
+        const titles = result.failed.slice(0, 3).map(({ task }) => `"${task.title}"`);
+        const more = result.failed.length > titles.length ? ` and ${result.failed.length - titles.length} more` : "";
+        toast.error(`${failureMessage(result)}: ${titles.join(", ")}${more}`);
+      }
+    },
+    onError: (err) => {
+      console.error(err);
+      toast.error(err instanceof LinkedTasksError ? err.message : errorMessage);
+    },
+  });
+}
+
+const countTasks = (n: number) => `${n} task${n === 1 ? "" : "s"}`;
+
+const withTaskCount = (message: string, taskCount: number, verb = "with") =>
+  taskCount ? `${message} ${verb} ${countTasks(taskCount)}` : message;
+
+// Moves the event to the trash; `tasks` says what happens to its linked
+// tasks (default "block"; see `useLinkedTaskCount` to ask the user)
 export function useDeleteEvent() {
+  return useEventTrashMutation({
+    run: (queryClient, { id, tasks = "block" }: { id: string; tasks?: EventTaskPolicy }) =>
+      setEventTrashed(queryClient, id, new Date().toISOString(), tasks),
+    successMessage: ({ tasks, policy }) =>
+      policy === "detach"
+        ? withTaskCount("Event moved to trash", tasks.length, "and unlinked")
+        : withTaskCount("Event moved to trash", tasks.length),
+    failureMessage: ({ failed, policy }) =>
+      `Couldn't ${policy === "detach" ? "unlink" : "trash"} ${countTasks(failed.length)}`,
+    errorMessage: "Failed to delete event",
+  });
+}
+
+// Restores the event and the tasks trashed together with it
+export function useRestoreEvent() {
+  return useEventTrashMutation({
+    run: (queryClient, id: string) => setEventTrashed(queryClient, id, null, "cascade"),
+    successMessage: ({ tasks }) => withTaskCount("Event restored", tasks.length),
+    failureMessage: ({ failed }) => `Couldn't restore ${countTasks(failed.length)}`,
+    errorMessage: "Failed to restore event",
+  });
+}
+
+// Deletes the event for good (emptying the trash); cannot be undone. Tasks
+// still linked to it (e.g. trashed with it) are unlinked by the backend.
+export function usePurgeEvent() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: deleteEvent,
-    onSuccess: () => {
-      toast.success("Event deleted!");
-      queryClient.invalidateQueries({ queryKey: ["events"] });
+    mutationFn: (id: string) => withLocalWrite("events", id, () => purgeEvent(id)),
+    networkMode: "always", // queued while offline
+    onSuccess: (id) => {
+      recordChange(isQueued("events", id) ? "Event deleted (pending sync)" : "Event permanently deleted");
+      removeEventFromCache(queryClient, id);
+      queryClient.invalidateQueries({ queryKey: ["tasks"] }); // unlinked tasks
     },
     onError: (err) => {
       console.error(err);
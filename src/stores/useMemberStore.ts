@@ -1,7 +1,7 @@
 // src/stores/useMemberStore.ts
 import { create } from "zustand";
 import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/lib/supabaseClient";
+import { getRepositories } from "@/data";
 
 // -----------------------------
 // Type Definitions
@@ -34,14 +34,8 @@ export const useMemberStore = create<MemberStore>((set) => ({
   fetchMembers: async (eventId: string) => {
     set({ isLoading: true, isError: false });
     try {
-      const { data, error } = await supabase
-        .from("members")
-        .select("*")
-        .eq("event_id", eventId)
-        .order("joined_at", { ascending: true });
-
-      if (error) throw error;
-      set({ members: data || [], isLoading: false });
+      const data = await getRepositories().members.listByEvent(eventId);
+      set({ members: data, isLoading: false });
     } catch (error) {
       console.error("Failed to fetch members:", error);
       set({ isError: true, isLoading: false });
@@ -59,14 +53,7 @@ export const useMembers = (eventId?: string) => {
     ["members", eventId],
     async (): Promise<Member[]> => {
       if (!eventId) return [];
-      const { data, error } = await supabase
-        .from("members")
-        .select("*")
-        .eq("event_id", eventId)
-        .order("joined_at", { ascending: true });
-
-      if (error) throw error;
-      return data || [];
+      return getRepositories().members.listByEvent(eventId);
     },
     {
       enabled: !!eventId,
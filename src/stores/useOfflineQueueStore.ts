@@ -0,0 +1,464 @@
+// src/stores/useOfflineQueueStore.ts
+import { useEffect } from "react";
+import { create } from "zustand";
+import { devtools, persist, createJSONStorage } from "zustand/middleware";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import type { Task } from "./useTaskStore";
+import type { Event } from "./useEventStore";
+import {
+  getRepositories,
+  isNetworkError,
+  isNotFoundError,
+  type Repositories,
+  type TaskBoardUpdate,
+  type UpdateOptions,
+} from "@/data";
+
+// -----------------------------
+// Type Definitions
+// -----------------------------
+export type OfflineTable = "tasks" | "events";
+
+type OfflineRecord = { tasks: Task; events: Event };
+
+export interface QueuedMutation {
+  id: string;
+  table: OfflineTable;
+  type: "create" | "update" | "delete";
+  recordId: string; // temporary "offline-..." id until a queued create is replayed
+  data?: Record<string, unknown>;
+  baseVersion?: string; // updatedAt / updated_at of the row the change was made against
+  force?: boolean; // "keep mine": replay without the version check
+  queuedAt: string;
+}
+
+export type ConflictReason =
+  | "changed" // someone else saved the record after it was queued
+  | "deleted" // the record no longer exists
+  | "failed"; // the backend rejected the change
+
+export interface QueueConflict {
+  mutationId: string;
+  table: OfflineTable;
+  recordId: string;
+  reason: ConflictReason;
+  message?: string;
+}
+
+export type ConflictResolution = "mine" | "theirs";
+
+// Column each table uses to detect concurrent edits
+const VERSION_FIELD: Record<OfflineTable, string> = {
+  tasks: "updatedAt",
+  events: "updated_at",
+};
+
+const DETAIL_KEY: Record<OfflineTable, string> = { tasks: "task", events: "event" };
+
+const TEMP_ID_PREFIX = "offline-";
+
+export const isTemporaryId = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+const versionOf = (table: OfflineTable, record: object | undefined | null) =>
+  (record as Record<string, string | undefined> | null | undefined)?.[VERSION_FIELD[table]];
+
+const isOnline = () => typeof navigator === "undefined" || navigator.onLine;
+
+// -----------------------------
+// Zustand Store (persisted)
+// -----------------------------
+// Mutations made while offline are kept in order in localStorage and
+// replayed once the app is back online. Replay stops at the first conflict
+// until the user resolves it, so later changes never jump ahead of it.
+interface OfflineQueueState {
+  queue: QueuedMutation[];
+  conflicts: QueueConflict[];
+  isOnline: boolean;
+  isReplaying: boolean;
+
+  enqueue: (mutation: Omit<QueuedMutation, "id" | "queuedAt">) => QueuedMutation;
+  dequeue: (mutationId: string) => void;
+  setOnline: (online: boolean) => void;
+}
+
+export const useOfflineQueueStore = create<OfflineQueueState>()(
+  devtools(
+    persist(
+      (set) => ({
+        queue: [],
+        conflicts: [],
+        isOnline: isOnline(),
+        isReplaying: false,
+
+        enqueue: (mutation) => {
+          const queued = {
+            ...mutation,
+            id: crypto.randomUUID(),
+            queuedAt: new Date().toISOString(),
+          };
+          set((state) => ({ queue: [...state.queue, queued] }));
+          return queued;
+        },
+        dequeue: (mutationId) =>
+          set((state) => ({
+            queue: state.queue.filter((m) => m.id !== mutationId),
+            conflicts: state.conflicts.filter((c) => c.mutationId !== mutationId),
+          })),
+        setOnline: (online) => set({ isOnline: online }),
+      }),
+      {
+        name: "offline-queue", // key in localStorage
+        storage: createJSONStorage(() => localStorage),
+        partialize: (state) => ({ queue: state.queue, conflicts: state.conflicts }),
+      }
+    )
+  )
+);
+
+// -----------------------------
+// Queueing Writes
+// -----------------------------
+// Each helper runs the write when online and queues it when offline or when
+// the request fails for lack of a connection. A queued write resolves with
+// the record as it will look once replayed, so callers update the UI the
+// same way in both cases; `isQueued` tells them apart.
+type QueueApi<T extends OfflineTable> = {
+  getById: (id: string) => Promise<OfflineRecord[T]>;
+  create: (data: Partial<OfflineRecord[T]>) => Promise<OfflineRecord[T]>;
+  update: (id: string, data: Partial<OfflineRecord[T]>, options?: UpdateOptions) => Promise<OfflineRecord[T]>;
+  remove: (id: string) => Promise<string>;
+};
+
+// Checked against the repository interfaces, so the helpers stay generic
+// over the table without casting
+const toQueueApis = (repositories: Pick<Repositories, OfflineTable>): { [T in OfflineTable]: QueueApi<T> } =>
+  repositories;
+
+const queueApi = <T extends OfflineTable>(table: T): QueueApi<T> => toQueueApis(getRepositories())[table];
+
+async function runOrQueue<R>(
+  write: () => Promise<R>,
+  queue: () => R
+): Promise<R> {
+  if (!isOnline()) return queue();
+  try {
+    return await write();
+  } catch (err) {
+    if (isNetworkError(err)) return queue();
+    throw err;
+  }
+}
+
+export function createOrQueue<T extends OfflineTable>(
+  table: T,
+  data: Partial<OfflineRecord[T]>
+): Promise<OfflineRecord[T]> {
+  return runOrQueue(
+    () => queueApi(table).create(data),
+    () => {
+      // Re-created records (undo of a delete) keep their id
+      const recordId = (data.id as string | undefined) ?? `${TEMP_ID_PREFIX}${crypto.randomUUID()}`;
+      useOfflineQueueStore.getState().enqueue({ table, type: "create", recordId, data });
+      return { ...data, id: recordId } as OfflineRecord[T];
+    }
+  );
+}
+
+function queueUpdate<T extends OfflineTable>(
+  table: T,
+  id: string,
+  data: Partial<OfflineRecord[T]>,
+  base?: OfflineRecord[T]
+): OfflineRecord[T] {
+  useOfflineQueueStore.getState().enqueue({
+    table,
+    type: "update",
+    recordId: id,
+    data,
+    baseVersion: versionOf(table, base),
+  });
+  return { ...base, ...data, id } as OfflineRecord[T];
+}
+
+// `base` is the cached row the change was made against
+export function updateOrQueue<T extends OfflineTable>(
+  table: T,
+  id: string,
+  data: Partial<OfflineRecord[T]>,
+  base?: OfflineRecord[T]
+): Promise<OfflineRecord[T]> {
+  const queue = () => queueUpdate(table, id, data, base);
+
+  // Changes must not overtake earlier queued changes to the same record
+  if (isQueued(table, id)) return Promise.resolve(queue());
+  return runOrQueue(() => queueApi(table).update(id, data), queue);
+}
+
+// A board move in one request that writes every task or none. Offline (or
+// behind earlier queued changes to one of the tasks) it is queued as plain
+// updates, replayed one by one.
+export function updateBoardOrQueue(
+  updates: (TaskBoardUpdate & { base?: Task })[]
+): Promise<Task[]> {
+  const queue = () => updates.map(({ id, data, base }) => queueUpdate("tasks", id, data, base));
+
+  if (updates.some(({ id }) => isQueued("tasks", id))) return Promise.resolve(queue());
+  return runOrQueue(() => getRepositories().tasks.updateBoard(updates.map(({ id, data }) => ({ id, data }))), queue);
+}
+
+// Deletes are replayed without a version check: deleting is explicit, and
+// the optimistic removal leaves no cached row to compare against
+export function removeOrQueue(table: OfflineTable, id: string): Promise<string> {
+  const { queue, dequeue, enqueue } = useOfflineQueueStore.getState();
+
+  // Never reached the server: forget it instead of replaying create + delete
+  if (isTemporaryId(id)) {
+    queue.filter((m) => m.recordId === id).forEach((m) => dequeue(m.id));
+    return Promise.resolve(id);
+  }
+
+  const queueDelete = () => {
+    enqueue({ table, type: "delete", recordId: id });
+    return id;
+  };
+  if (isQueued(table, id)) return Promise.resolve(queueDelete());
+  return runOrQueue(() => queueApi(table).remove(id), queueDelete);
+}
+
+export function isQueued(table: OfflineTable, recordId: string): boolean {
+  return useOfflineQueueStore
+    .getState()
+    .queue.some((m) => m.table === table && m.recordId === recordId);
+}
+
+// -----------------------------
+// Replay
+// -----------------------------
+type ReplayResult = QueueConflict | { id: string; version?: string };
+
+// Raises a conflict instead of overwriting a row someone else changed since
+// the mutation was queued (unless the user chose "keep mine"). The version
+// check is part of the update itself, so a save landing in between cannot
+// slip through; the row is only read back to tell "changed" from "deleted".
+async function replayMutation(mutation: QueuedMutation): Promise<ReplayResult> {
+  const api = queueApi(mutation.table);
+  const conflict = (reason: ConflictReason, message?: string): QueueConflict => ({
+    mutationId: mutation.id,
+    table: mutation.table,
+    recordId: mutation.recordId,
+    reason,
+    message,
+  });
+
+  if (mutation.type === "create") {
+    const created = await api.create(mutation.data ?? {});
+    return { id: created.id, version: versionOf(mutation.table, created) };
+  }
+
+  if (mutation.type === "delete") {
+    try {
+      await api.remove(mutation.recordId);
+    } catch (err) {
+      if (!isNotFoundError(err)) throw err; // already gone: nothing left to delete
+    }
+    return { id: mutation.recordId };
+  }
+
+  const ifVersion = mutation.force ? undefined : mutation.baseVersion;
+  try {
+    const updated = await api.update(mutation.recordId, mutation.data ?? {}, { ifVersion });
+    return { id: updated.id, version: versionOf(mutation.table, updated) };
+  } catch (err) {
+    if (!isNotFoundError(err)) throw err;
+  }
+
+  // Nothing was updated
+  try {
+    await api.getById(mutation.recordId);
+    return conflict("changed");
+  } catch (err) {
+    if (!isNotFoundError(err)) throw err;
+    return conflict("deleted");
+  }
+}
+
+// Swaps a temporary id for the saved one in queued data: a task's `eventId`,
+// its `blockedBy` list, …
+function replaceId(data: Record<string, unknown> | undefined, from: string, to: string) {
+  if (!data) return data;
+  const swap = (value: unknown) => (value === from ? to : value);
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, Array.isArray(value) ? value.map(swap) : swap(value)])
+  );
+}
+
+// After a successful replay, later entries for the same record target the
+// saved id and expect the version this client just wrote. A replayed create
+// also hands its saved id to every queued record that refers to it.
+function rebaseQueue(mutation: QueuedMutation, id: string, version?: string) {
+  const renamed = id !== mutation.recordId;
+  useOfflineQueueStore.setState((state) => ({
+    queue: state.queue.map((m) => {
+      const data = renamed ? replaceId(m.data, mutation.recordId, id) : m.data;
+      return m.table === mutation.table && m.recordId === mutation.recordId
+        ? { ...m, data, recordId: id, baseVersion: version ?? m.baseVersion }
+        : { ...m, data };
+    }),
+  }));
+}
+
+let replaying: Promise<void> | null = null;
+
+// Replays the queue in order; single-flight, safe to call repeatedly
+export function replayQueue(queryClient: QueryClient): Promise<void> {
+  replaying ??= (async () => {
+    const store = useOfflineQueueStore;
+    let replayed = 0;
+    store.setState({ isReplaying: true });
+
+    try {
+      while (isOnline() && !store.getState().conflicts.length) {
+        const [mutation] = store.getState().queue;
+        if (!mutation) break;
+
+        let result: ReplayResult;
+        try {
+          result = await replayMutation(mutation);
+        } catch (err) {
+          if (isNetworkError(err)) break; // try again when back online
+          console.error(err);
+          result = {
+            mutationId: mutation.id,
+            table: mutation.table,
+            recordId: mutation.recordId,
+            reason: "failed",
+            message: err instanceof Error ? err.message : String(err),
+          };
+        }
+
+        if ("reason" in result) {
+          store.setState((state) => ({ conflicts: [...state.conflicts, result as QueueConflict] }));
+          toast.error(
+            result.reason === "failed"
+              ? "An offline change could not be saved"
+              : "An offline change conflicts with newer data"
+          );
+          break;
+        }
+
+        rebaseQueue(mutation, result.id, result.version);
+        store.getState().dequeue(mutation.id);
+        replayed++;
+      }
+    } finally {
+      store.setState({ isReplaying: false });
+      replaying = null;
+    }
+
+    if (replayed) {
+      if (!store.getState().queue.length) toast.success("Offline changes synced");
+      // Temporary rows are replaced by their saved versions
+      ["tasks", "task", "events", "event"].forEach((key) =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
+    }
+  })();
+
+  return replaying;
+}
+
+// "mine" replays the queued change over the newer data; "theirs" drops it
+// along with every later change to the same record
+export function resolveConflict(
+  queryClient: QueryClient,
+  mutationId: string,
+  resolution: ConflictResolution
+): Promise<void> {
+  const { queue, conflicts } = useOfflineQueueStore.getState();
+  const conflict = conflicts.find((c) => c.mutationId === mutationId);
+  if (!conflict) return Promise.resolve();
+
+  // A deleted record cannot take the change
+  if (resolution === "mine" && conflict.reason !== "deleted") {
+    useOfflineQueueStore.setState({
+      queue: queue.map((m) => (m.id === mutationId ? { ...m, force: true } : m)),
+      conflicts: conflicts.filter((c) => c.mutationId !== mutationId),
+    });
+  } else {
+    useOfflineQueueStore.setState({
+      queue: queue.filter(
+        (m) => !(m.table === conflict.table && m.recordId === conflict.recordId)
+      ),
+      conflicts: conflicts.filter((c) => c.mutationId !== mutationId),
+    });
+    queryClient.invalidateQueries({ queryKey: [conflict.table] });
+    queryClient.invalidateQueries({ queryKey: [DETAIL_KEY[conflict.table], conflict.recordId] });
+  }
+
+  return replayQueue(queryClient);
+}
+
+// -----------------------------
+// Hooks
+// -----------------------------
+// Mount once inside the QueryClientProvider. Tracks connectivity and replays
+// the queue on start-up and whenever the app comes back online.
+export function useOfflineSync() {
+  const queryClient = useQueryClient();
+  const setOnline = useOfflineQueueStore((s) => s.setOnline);
+
+  useEffect(() => {
+    const onOnline = () => {
+      setOnline(true);
+      replayQueue(queryClient);
+    };
+    const onOffline = () => setOnline(false);
+
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    if (isOnline()) replayQueue(queryClient);
+
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, [queryClient, setOnline]);
+}
+
+// For list rows and forms: unsynced changes and any conflict for one record
+export function usePendingSync(table: OfflineTable, recordId?: string | null) {
+  const queryClient = useQueryClient();
+  const isPending = useOfflineQueueStore((s) =>
+    s.queue.some((m) => m.table === table && m.recordId === recordId)
+  );
+  const conflict = useOfflineQueueStore(
+    (s) => s.conflicts.find((c) => c.table === table && c.recordId === recordId) ?? null
+  );
+  return {
+    isPending,
+    conflict,
+    resolve: (resolution: ConflictResolution) => {
+      if (conflict) resolveConflict(queryClient, conflict.mutationId, resolution);
+    },
+  };
+}
+
+// For a sync status indicator / conflict list
+export function useOfflineQueue() {
+  const queryClient = useQueryClient();
+  const pendingCount = useOfflineQueueStore((s) => s.queue.length);
+  const conflicts = useOfflineQueueStore((s) => s.conflicts);
+  const online = useOfflineQueueStore((s) => s.isOnline);
+  const isReplaying = useOfflineQueueStore((s) => s.isReplaying);
+
+  return {
+    pendingCount,
+    conflicts,
+    isOnline: online,
+    isReplaying,
+    resolveConflict: (mutationId: string, resolution: ConflictResolution) =>
+      resolveConflict(queryClient, mutationId, resolution),
+    retry: () => replayQueue(queryClient),
+  };
+}
@@ -0,0 +1,210 @@
+// src/stores/useRealtimeStore.ts
+import { useEffect } from "react";
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { useMemberStore, type Member } from "./useMemberStore";
+import { findCachedTask, removeTaskFromCache, writeTaskToCache } from "@/features/tasks/taskCache";
+import { removeEventFromCache, writeEventToCache } from "@/features/events/eventCache";
+import { refetchExact } from "@/lib/listCache";
+import { getRepositories, type ChangeFeedTable, type RowChange } from "@/data";
+
+// -----------------------------
+// Type Definitions
+// -----------------------------
+export interface RemoteChange {
+  table: ChangeFeedTable;
+  id: string;
+  type: "insert" | "update" | "delete";
+  receivedAt: string;
+}
+
+const recordKey = (table: ChangeFeedTable, id: string) => `${table}:${id}`;
+
+const changedId = (change: RowChange<{ id: string }>) =>
+  change.type === "delete" ? change.id : change.record.id;
+
+// -----------------------------
+// Local Writes
+// -----------------------------
+// Our own writes come back through the change feed too. Records written by
+// this client are remembered until shortly after the request settles, so
+// their echo is not reported as someone else's change.
+const ECHO_WINDOW_MS = 5000;
+const localWrites = new Map<string, number>();
+
+export async function withLocalWrite<T>(
+  table: ChangeFeedTable,
+  id: string,
+  write: () => Promise<T>
+): Promise<T> {
+  const key = recordKey(table, id);
+  localWrites.set(key, (localWrites.get(key) ?? 0) + 1);
+
+  try {
+    return await write();
+  } finally {
+    setTimeout(() => {
+      const pending = (localWrites.get(key) ?? 1) - 1;
+      if (pending > 0) localWrites.set(key, pending);
+      else localWrites.delete(key);
+    }, ECHO_WINDOW_MS);
+  }
+}
+
+// -----------------------------
+// Zustand Store
+// -----------------------------
+// Only records open in a form are watched; changes to them by someone else
+// are kept until the form acknowledges them or closes.
+interface RealtimeStoreState {
+  watched: Record<string, number>; // record key -> open forms
+  remoteChanges: Record<string, RemoteChange>;
+
+  watchRecord: (key: string) => void;
+  unwatchRecord: (key: string) => void;
+  recordRemoteChange: (change: RemoteChange) => void;
+  acknowledgeRemoteChange: (key: string) => void;
+}
+
+export const useRealtimeStore = create<RealtimeStoreState>()(
+  devtools((set) => ({
+    watched: {},
+    remoteChanges: {},
+
+    watchRecord: (key) =>
+      set((state) => ({ watched: { ...state.watched, [key]: (state.watched[key] ?? 0) + 1 } })),
+    unwatchRecord: (key) =>
+      set((state) => {
+        const { [key]: count = 0, ...watched } = state.watched;
+        if (count > 1) return { watched: { ...watched, [key]: count - 1 } };
+
+        const { [key]: _dropped, ...remoteChanges } = state.remoteChanges;
+        return { watched, remoteChanges };
+      }),
+    recordRemoteChange: (change) =>
+      set((state) => ({
+        remoteChanges: { ...state.remoteChanges, [recordKey(change.table, change.id)]: change },
+      })),
+    acknowledgeRemoteChange: (key) =>
+      set((state) => {
+        const { [key]: _dropped, ...remoteChanges } = state.remoteChanges;
+        return { remoteChanges };
+      }),
+  }))
+);
+
+// Fields maintained by the backend; a change to only these is not an edit
+const DERIVED_FIELDS: Record<ChangeFeedTable, string[]> = {
+  tasks: ["isBlocked", "updatedAt"],
+  events: ["progress", "updated_at"],
+  members: [],
+};
+
+function hasEdits(table: ChangeFeedTable, before: object, after: object) {
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter((field) => !DERIVED_FIELDS[table].includes(field))
+    .some((field) => JSON.stringify(a[field]) !== JSON.stringify(b[field]));
+}
+
+// `cached` is the row as this client knew it before the change
+function flagIfWatched(
+  table: ChangeFeedTable,
+  change: RowChange<{ id: string }>,
+  cached: object | undefined | null
+) {
+  const id = changedId(change);
+  const key = recordKey(table, id);
+  const { watched, recordRemoteChange } = useRealtimeStore.getState();
+
+  if (!watched[key] || localWrites.has(key)) return;
+  if (change.type !== "delete" && cached && !hasEdits(table, cached, change.record)) return;
+
+  recordRemoteChange({ table, id, type: change.type, receivedAt: new Date().toISOString() });
+}
+
+// -----------------------------
+// Cache Patching
+// -----------------------------
+function applyMemberChange(queryClient: QueryClient, change: RowChange<Member>) {
+  const id = changedId(change);
+  const member = change.type === "delete" ? null : change.record;
+
+  // Edits replace the member in place, keeping the list's joined_at order;
+  // new members join at the end. Deletes carry no event_id, so every list
+  // drops the id.
+  const patch = (members: Member[], belongs: boolean): Member[] => {
+    if (!member || !belongs) return members.filter((m) => m.id !== id);
+    return members.some((m) => m.id === id)
+      ? members.map((m) => (m.id === id ? member : m))
+      : [...members, member];
+  };
+
+  for (const [queryKey, members] of queryClient.getQueriesData<Member[]>({ queryKey: ["members"] })) {
+    if (members) queryClient.setQueryData(queryKey, patch(members, queryKey[1] === member?.event_id));
+  }
+  const { members } = useMemberStore.getState();
+  const belongs = !!member && members.some((m) => m.event_id === member.event_id);
+  useMemberStore.setState({ members: patch(members, belongs) });
+}
+
+// -----------------------------
+// Hooks
+// -----------------------------
+// Mount once inside the QueryClientProvider. Subscribes to the change feed of
+// the repositories configured at mount time.
+export function useRealtimeSync() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const { changes } = getRepositories();
+
+    const unsubscribes = [
+      changes.subscribe("tasks", (change) => {
+        flagIfWatched("tasks", change, findCachedTask(queryClient, changedId(change)));
+        if (change.type === "delete") {
+          removeTaskFromCache(queryClient, change.id);
+        } else {
+          refetchExact(queryClient, writeTaskToCache(queryClient, change.record));
+        }
+      }),
+
+      changes.subscribe("events", (change) => {
+        flagIfWatched("events", change, queryClient.getQueryData(["event", changedId(change)]));
+        if (change.type === "delete") {
+          removeEventFromCache(queryClient, change.id);
+        } else {
+          refetchExact(queryClient, writeEventToCache(queryClient, change.record));
+        }
+      }),
+
+      changes.subscribe("members", (change) => applyMemberChange(queryClient, change)),
+    ];
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [queryClient]);
+}
+
+// For forms: whether someone else changed or deleted the open record
+export function useRemoteChange(table: ChangeFeedTable, id?: string | null) {
+  const key = id ? recordKey(table, id) : null;
+  const change = useRealtimeStore((s) => (key ? s.remoteChanges[key] ?? null : null));
+  const watchRecord = useRealtimeStore((s) => s.watchRecord);
+  const unwatchRecord = useRealtimeStore((s) => s.unwatchRecord);
+  const acknowledgeRemoteChange = useRealtimeStore((s) => s.acknowledgeRemoteChange);
+
+  useEffect(() => {
+    if (!key) return;
+    watchRecord(key);
+    return () => unwatchRecord(key);
+  }, [key, watchRecord, unwatchRecord]);
+
+  return {
+    change,
+    acknowledge: () => {
+      if (key) acknowledgeRemoteChange(key);
+    },
+  };
+}
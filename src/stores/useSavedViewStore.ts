@@ -0,0 +1,298 @@
+// src/stores/useSavedViewStore.ts
+import { create } from "zustand";
+import { devtools, persist } from "zustand/middleware";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import {
+  useTaskStore,
+  pickTaskView,
+  DEFAULT_TASK_VIEW,
+  type TaskViewState,
+} from "./useTaskStore";
+import { useUiStore, type AdvancedFilters } from "./useUiStore";
+import { useAuth } from "@/stores/useAuth";
+import { getRepositories } from "@/data";
+
+// -----------------------------
+// Type Definitions
+// -----------------------------
+export type SavedViewScope = "personal" | "shared";
+
+// Advanced filters as stored: dates become ISO strings and the derived
+// `hasActiveFilters` flag is dropped.
+export interface SavedViewFilters {
+  advancedStatus: string[];
+  advancedPriority: string[];
+  advancedAssignees: string[];
+  advancedDateRange: { startDate: string | null; endDate: string | null } | null;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  scope: SavedViewScope;
+  eventId: string | null; // shared views are visible to this event's members
+  ownerId: string | null;
+  view: TaskViewState;
+  advancedFilters: SavedViewFilters;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SaveViewInput {
+  name: string;
+  scope: SavedViewScope;
+  eventId?: string | null; // required for shared views
+}
+
+// -----------------------------
+// Snapshot Helpers
+// -----------------------------
+const toIso = (date: Date | null) => (date ? date.toISOString() : null);
+const toDate = (iso: string | null) => (iso ? new Date(iso) : null);
+
+export function toSavedViewFilters(filters: AdvancedFilters): SavedViewFilters {
+  const { advancedStatus, advancedPriority, advancedAssignees, advancedDateRange } = filters;
+  return {
+    advancedStatus: [...advancedStatus],
+    advancedPriority: [...advancedPriority],
+    advancedAssignees: [...advancedAssignees],
+    advancedDateRange: advancedDateRange && {
+      startDate: toIso(advancedDateRange.startDate),
+      endDate: toIso(advancedDateRange.endDate),
+    },
+  };
+}
+
+// `hasActiveFilters` is recomputed by `useUiStore.setAdvancedFilters`
+export function fromSavedViewFilters(
+  filters: SavedViewFilters
+): Omit<AdvancedFilters, "hasActiveFilters"> {
+  const { advancedDateRange } = filters;
+  return {
+    advancedStatus: [...filters.advancedStatus],
+    advancedPriority: [...filters.advancedPriority],
+    advancedAssignees: [...filters.advancedAssignees],
+    advancedDateRange: advancedDateRange && {
+      startDate: toDate(advancedDateRange.startDate),
+      endDate: toDate(advancedDateRange.endDate),
+    },
+  };
+}
+
+// Current task view + advanced filters, as saved in a view
+function snapshotCurrentView(): Pick<SavedView, "view" | "advancedFilters"> {
+  return {
+    view: pickTaskView(useTaskStore.getState()),
+    advancedFilters: toSavedViewFilters(useUiStore.getState().advancedFilters),
+  };
+}
+
+function normalizeName(name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("View name is required");
+  return trimmed;
+}
+
+// -----------------------------
+// Zustand Store (personal views)
+// -----------------------------
+// Personal views never leave the browser; shared views go through the
+// `savedViews` repository (see src/data).
+interface SavedViewStoreState {
+  personalViews: SavedView[];
+  activeViewId: string | null;
+
+  addPersonalView: (view: SavedView) => void;
+  updatePersonalView: (id: string, data: Partial<SavedView>) => SavedView;
+  removePersonalView: (id: string) => void;
+  setActiveViewId: (id: string | null) => void;
+}
+
+export const useSavedViewStore = create<SavedViewStoreState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        personalViews: [],
+        activeViewId: null,
+
+        addPersonalView: (view) =>
+          set((state) => ({ personalViews: [...state.personalViews, view] })),
+        updatePersonalView: (id, data) => {
+          const current = get().personalViews.find((v) => v.id === id);
+          if (!current) throw new Error(`No personal view with id "${id}"`);
+
+          const updated = { ...current, ...data, id, updatedAt: new Date().toISOString() };
+          set((state) => ({
+            personalViews: state.personalViews.map((v) => (v.id === id ? updated : v)),
+          }));
+          return updated;
+        },
+        removePersonalView: (id) =>
+          set((state) => ({
+            personalViews: state.personalViews.filter((v) => v.id !== id),
+            activeViewId: state.activeViewId === id ? null : state.activeViewId,
+          })),
+        setActiveViewId: (id) => set({ activeViewId: id }),
+      }),
+      {
+        name: "saved-views", // key in localStorage
+        partialize: (state) => ({ personalViews: state.personalViews }),
+      }
+    )
+  )
+);
+
+// -----------------------------
+// Data Access (see src/data)
+// -----------------------------
+async function fetchSharedViews(eventId: string) {
+  return getRepositories().savedViews.listByEvent(eventId);
+}
+
+async function saveView(input: SaveViewInput, ownerId: string | null): Promise<SavedView> {
+  const data = {
+    name: normalizeName(input.name),
+    scope: input.scope,
+    eventId: input.eventId ?? null,
+    ownerId,
+    ...snapshotCurrentView(),
+  };
+
+  if (data.scope === "shared") {
+    if (!data.eventId) throw new Error("Shared views need an event");
+    return getRepositories().savedViews.create(data);
+  }
+
+  const now = new Date().toISOString();
+  const view: SavedView = { ...data, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+  useSavedViewStore.getState().addPersonalView(view);
+  return view;
+}
+
+async function updateView(view: SavedView, data: Partial<SavedView>) {
+  return view.scope === "shared"
+    ? getRepositories().savedViews.update(view.id, data)
+    : useSavedViewStore.getState().updatePersonalView(view.id, data);
+}
+
+async function deleteView(view: SavedView) {
+  if (view.scope === "shared") {
+    await getRepositories().savedViews.remove(view.id);
+  }
+  useSavedViewStore.getState().removePersonalView(view.id);
+  return view.id;
+}
+
+// -----------------------------
+// React Query Hooks
+// -----------------------------
+// Personal views plus the views shared with `eventId`'s members
+export function useSavedViews(eventId?: string | null) {
+  const personal = useSavedViewStore((s) => s.personalViews);
+  const activeViewId = useSavedViewStore((s) => s.activeViewId);
+
+  const query = useQuery({
+    queryKey: ["savedViews", eventId],
+    queryFn: () => (eventId ? fetchSharedViews(eventId) : []),
+    enabled: !!eventId,
+  });
+
+  const shared = query.data ?? [];
+  return {
+    personal,
+    shared,
+    activeView: [...personal, ...shared].find((v) => v.id === activeViewId) ?? null,
+    isLoading: query.isLoading,
+    isError: query.isError,
+  };
+}
+
+// Save the current task view + advanced filters under a name
+export function useSaveView() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const setActiveViewId = useSavedViewStore((s) => s.setActiveViewId);
+
+  return useMutation({
+    mutationFn: (input: SaveViewInput) => saveView(input, user?.id ?? null),
+    onSuccess: (view) => {
+      toast.success(`View "${view.name}" saved`);
+      if (view.scope === "shared") {
+        queryClient.invalidateQueries({ queryKey: ["savedViews", view.eventId] });
+      }
+      setActiveViewId(view.id);
+    },
+    onError: (err) => {
+      console.error(err);
+      toast.error("Failed to save view");
+    },
+  });
+}
+
+export function useRenameView() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ view, name }: { view: SavedView; name: string }) =>
+      updateView(view, { name: normalizeName(name) }),
+    onSuccess: (view) => {
+      toast.success("View renamed");
+      if (view.scope === "shared") {
+        queryClient.invalidateQueries({ queryKey: ["savedViews", view.eventId] });
+      }
+    },
+    onError: (err) => {
+      console.error(err);
+      toast.error("Failed to rename view");
+    },
+  });
+}
+
+// Overwrite a saved view with the current task view + advanced filters
+export function useUpdateViewFromCurrent() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (view: SavedView) => updateView(view, snapshotCurrentView()),
+    onSuccess: (view) => {
+      toast.success(`View "${view.name}" updated`);
+      if (view.scope === "shared") {
+        queryClient.invalidateQueries({ queryKey: ["savedViews", view.eventId] });
+      }
+    },
+    onError: (err) => {
+      console.error(err);
+      toast.error("Failed to update view");
+    },
+  });
+}
+
+export function useDeleteView() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteView,
+    onSuccess: (_id, view) => {
+      toast.success("View deleted");
+      if (view.scope === "shared") {
+        queryClient.invalidateQueries({ queryKey: ["savedViews", view.eventId] });
+      }
+    },
+    onError: (err) => {
+      console.error(err);
+      toast.error("Failed to delete view");
+    },
+  });
+}
+
+// Replace the current task view + advanced filters with a saved view's
+export function useApplySavedView() {
+  const setTaskFilters = useTaskStore((s) => s.setTaskFilters);
+  const setAdvancedFilters = useUiStore((s) => s.setAdvancedFilters);
+  const setActiveViewId = useSavedViewStore((s) => s.setActiveViewId);
+
+  return (saved: SavedView) => {
+    // Older views may lack newer view keys; fill them from the defaults
+    setTaskFilters({ ...DEFAULT_TASK_VIEW, ...saved.view });
+    setAdvancedFilters(fromSavedViewFilters(saved.advancedFilters));
+    setActiveViewId(saved.id);
+  };
+}
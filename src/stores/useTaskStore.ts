@@ -1,10 +1,85 @@
 // src/stores/useTaskStore.ts
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import { create } from "zustand";
-import { devtools } from "zustand/middleware";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  devtools,
+  persist,
+  createJSONStorage,
+  type StateStorage,
+} from "zustand/middleware";
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+  type UseInfiniteQueryResult,
+} from "@tanstack/react-query";
 import { toast } from "react-hot-toast";
 import { useUiStore } from "./useUiStore";
-import { supabase } from "@/lib/supabaseClient";
+import { withLocalWrite } from "./useRealtimeStore";
+import {
+  createOrQueue,
+  isQueued,
+  removeOrQueue,
+  updateBoardOrQueue,
+  updateOrQueue,
+} from "./useOfflineQueueStore";
+import { combineChanges, createdChange, recordChange, updatedChange } from "./useUndoStore";
+import { useAuth } from "@/stores/useAuth";
+import {
+  getQuickFilterDueRange,
+  resolveQuickFilter,
+  type QuickFilterContext,
+} from "@/features/tasks/quickFilters";
+import { getAdvancedFilterPredicates } from "@/features/tasks/taskFilters";
+import {
+  addTaskToCache,
+  findCachedTask,
+  findCachedTasks,
+  removeTaskFromCache,
+  restoreTaskCache,
+  snapshotTaskCache,
+  writeTaskToCache,
+} from "@/features/tasks/taskCache";
+import {
+  getColumnChange,
+  groupTasksIntoColumns,
+  planBoardRanks,
+  withBoardRank,
+} from "@/features/tasks/taskBoard";
+import { getUnfinishedBlockers } from "@/features/tasks/taskDependencies";
+import {
+  DUE_SOON_DAYS,
+  getDeadlineStatus,
+  getUpcomingDeadlinePredicates,
+  getUpcomingDeadlines,
+  isDeadlineInRange,
+} from "@/features/tasks/taskDeadlines";
+import {
+  addSubtask,
+  moveSubtask,
+  planSubtaskUpdate,
+  removeSubtask,
+  toggleSubtask,
+} from "@/features/tasks/subtasks";
+import { getCalendarTaskPredicate, type CalendarRange } from "@/features/calendar/calendarItems";
+import { getListedCount, isNarrowedPage, toListOccurrences } from "@/features/recurrence/recurrence";
+import { refetchExact } from "@/lib/listCache";
+import { useNow } from "@/lib/clock";
+import {
+  getRepositories,
+  listAll,
+  listAllResult,
+  DEFAULT_PAGE_SIZE,
+  type DateRange,
+  type ListResult,
+  type PageParams,
+  type TaskBoardUpdate,
+  type TaskListParams,
+  type TaskPredicate,
+} from "@/data";
 
 // -----------------------------
 // Type Definitions
@@ -23,44 +98,200 @@ export interface Task {
   status: "To Do" | "In Progress" | "Done";
   dueDate?: string | null;
   assignees: string[]; // user ids or names
+  eventId?: string | null; // the event this task belongs to
+  /** @deprecated Free-text link replaced by `eventId`; kept so old rows still type-check. */
   relatedEventName?: string | null;
   isPersonal?: boolean;
   subtasks?: Subtask[];
-  attachments?: string[];
+  attachments?: string[]; // paths in file storage, or links (see features/uploads)
   isScheduled?: boolean;
   scheduleStart?: string | null;
   scheduleEnd?: string | null;
+  /** @deprecated Never computed; use `getDeadlineStatus` / `useTaskDeadlineStatus`. */
   isOverdue?: boolean;
   progress?: number; // 0 - 100
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string | null; // set while the task is in the trash
+  boardRanks?: Partial<Record<TaskBoardGroupBy, number>> | null; // manual order in Board View, per grouping
+  recurrence?: string | null; // RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO" (see features/recurrence)
+  recurrenceExceptions?: string[] | null; // occurrence dates removed or edited separately
+  seriesId?: string | null; // set on an occurrence edited separately
+  occurrenceDate?: string | null; // the occurrence it stands for
+  blockedBy?: string[] | null; // tasks that must be done first (see features/tasks/taskDependencies)
+  isBlocked?: boolean; // a task in `blockedBy` is unfinished; maintained by the data layer
+}
+
+// -----------------------------
+// Task View State
+// -----------------------------
+export type TaskSortOption =
+  | "Due Date (Earliest)"
+  | "Due Date (Latest)"
+  | "Priority (High to Low)"
+  | "Priority (Low to High)"
+  | "Name (A-Z)"
+  | "Name (Z-A)"
+  | "Status";
+
+export type TaskViewMode = "List View" | "Board View" | "Calendar View";
+
+export type TaskBoardGroupBy = "status" | "priority" | "assignee";
+
+// How the task list is filtered, sorted and shown. This is the single source
+// of truth for these settings: it is persisted and drives `useFetchTasks()`.
+export interface TaskViewState {
+  quickFilter: string;
+  taskSortBy: TaskSortOption;
+  taskSortDirection: "asc" | "desc";
+  viewMode: TaskViewMode;
+  boardGroupBy: TaskBoardGroupBy;
+
+  filterByStatus: Task["status"][];
+  filterByPriority: Task["priority"][];
+  filterByEvent: string | null; // event id; null for tasks of any event
+  showCompletedTasks: boolean;
+  showPersonalTasks: boolean;
+}
+
+export const DEFAULT_TASK_VIEW: TaskViewState = {
+  quickFilter: "Due Date",
+  taskSortBy: "Due Date (Earliest)",
+  taskSortDirection: "asc",
+  viewMode: "List View",
+  boardGroupBy: "status",
+
+  filterByStatus: ["To Do", "In Progress", "Done"],
+  filterByPriority: ["Urgent", "High", "Normal", "Low"],
+  filterByEvent: null,
+  showCompletedTasks: true,
+  showPersonalTasks: true,
+};
+
+// Just the view settings of a store state (for persisting and saved views)
+export function pickTaskView(state: TaskViewState): TaskViewState {
+  return {
+    quickFilter: state.quickFilter,
+    taskSortBy: state.taskSortBy,
+    taskSortDirection: state.taskSortDirection,
+    viewMode: state.viewMode,
+    boardGroupBy: state.boardGroupBy,
+    filterByStatus: state.filterByStatus,
+    filterByPriority: state.filterByPriority,
+    filterByEvent: state.filterByEvent,
+    showCompletedTasks: state.showCompletedTasks,
+    showPersonalTasks: state.showPersonalTasks,
+  };
+}
+
+const TASK_SORT_OPTIONS: TaskSortOption[] = [
+  "Due Date (Earliest)",
+  "Due Date (Latest)",
+  "Priority (High to Low)",
+  "Priority (Low to High)",
+  "Name (A-Z)",
+  "Name (Z-A)",
+  "Status",
+];
+
+// -----------------------------
+// Persistence & Legacy Migration
+// -----------------------------
+// Before version 1 these settings were duplicated in `useUiStore` and only
+// that copy was persisted (as the "ui-store" localStorage entry).
+const LEGACY_UI_STORE_KEY = "ui-store";
+
+const LEGACY_SORT_OPTIONS: Record<string, TaskSortOption> = {
+  Priority: "Priority (High to Low)",
+};
+
+const LEGACY_VIEW_MODES: Record<string, TaskViewMode> = {
+  list: "List View",
+  board: "Board View",
+  calendar: "Calendar View",
+};
+
+// Map the task settings of a legacy "ui-store" state; unknown values fall
+// back to the defaults.
+export function migrateLegacyTaskView(legacy: Record<string, unknown>): TaskViewState {
+  const view = { ...DEFAULT_TASK_VIEW };
+  const { taskFilterStatus, taskSortBy, taskSortDirection, viewMode } = legacy;
+
+  if (typeof taskFilterStatus === "string") {
+    view.quickFilter = taskFilterStatus;
+  }
+  if (typeof taskSortBy === "string") {
+    view.taskSortBy =
+      LEGACY_SORT_OPTIONS[taskSortBy] ??
+      TASK_SORT_OPTIONS.find((option) => option === taskSortBy) ??
+      view.taskSortBy;
+  }
+  if (taskSortDirection === "asc" || taskSortDirection === "desc") {
+    view.taskSortDirection = taskSortDirection;
+  }
+  if (typeof viewMode === "string") {
+    view.viewMode = LEGACY_VIEW_MODES[viewMode] ?? view.viewMode;
+  }
+  if (typeof legacy.showCompletedTasks === "boolean") {
+    view.showCompletedTasks = legacy.showCompletedTasks;
+  }
+  if (typeof legacy.showPersonalTasks === "boolean") {
+    view.showPersonalTasks = legacy.showPersonalTasks;
+  }
+
+  return view;
+}
+
+// Until the task view is saved once, read the legacy "ui-store" entry instead.
+// Its version (0) routes it through `migrateLegacyTaskView`.
+const taskViewStorage: StateStorage = {
+  getItem: (name) => localStorage.getItem(name) ?? localStorage.getItem(LEGACY_UI_STORE_KEY),
+  setItem: (name, value) => localStorage.setItem(name, value),
+  removeItem: (name) => localStorage.removeItem(name),
+};
+
+// -----------------------------
+// Task Selection (bulk actions)
+// -----------------------------
+// Either explicit ids, or every task matching the current filters (rows not
+// loaded yet included) except `excludedIds`
+export type TaskSelection =
+  | { mode: "ids"; ids: string[] }
+  | { mode: "matching"; excludedIds: string[] };
+
+const EMPTY_SELECTION: TaskSelection = { mode: "ids", ids: [] };
+
+export function isTaskSelected(selection: TaskSelection, id: string): boolean {
+  return selection.mode === "ids" ? selection.ids.includes(id) : !selection.excludedIds.includes(id);
+}
+
+// `totalCount` is the number of tasks matching the current filters
+export function getSelectedCount(selection: TaskSelection, totalCount: number): number {
+  return selection.mode === "ids" ? selection.ids.length : totalCount - selection.excludedIds.length;
+}
+
+function withSelected(selection: TaskSelection, ids: string[], selected: boolean): TaskSelection {
+  const add = (list: string[]) => [...new Set([...list, ...ids])];
+  const remove = (list: string[]) => list.filter((id) => !ids.includes(id));
+
+  return selection.mode === "ids"
+    ? { mode: "ids", ids: selected ? add(selection.ids) : remove(selection.ids) }
+    : { mode: "matching", excludedIds: selected ? remove(selection.excludedIds) : add(selection.excludedIds) };
 }
 
 // -----------------------------
 // Zustand Store (local UI state)
 // -----------------------------
-export interface TaskStoreState {
+export interface TaskStoreState extends TaskViewState {
   selectedTaskId: string | null;
   totalCount: number;
   showingCount: number;
 
   searchKeyword: string;
-  quickFilter: string;
-  taskSortBy:
-    | "Due Date (Earliest)"
-    | "Due Date (Latest)"
-    | "Priority (High to Low)"
-    | "Priority (Low to High)"
-    | "Name (A-Z)"
-    | "Name (Z-A)"
-    | "Status";
-  taskSortDirection: "asc" | "desc";
-  viewMode: "List View" | "Board View" | "Calendar View";
 
-  filterByStatus: ("To Do" | "In Progress" | "Done")[];
-  filterByPriority: ("Urgent" | "High" | "Normal" | "Low")[];
-  showCompletedTasks: boolean;
-  showPersonalTasks: boolean;
+  // Multi-selection for bulk actions; not persisted
+  taskSelection: TaskSelection;
+  selectionAnchorId: string | null; // last row clicked without Shift
 
   setSelectedTaskId: (id: string | null) => void;
   setTotalCount: (n: number) => void;
@@ -68,15 +299,23 @@ export interface TaskStoreState {
 
   setSearchKeyword: (s: string) => void;
   setQuickFilter: (f: string) => void;
-  setTaskSortBy: (s: TaskStoreState["taskSortBy"]) => void;
+  setTaskSortBy: (s: TaskSortOption) => void;
   setTaskSortDirection: (d: "asc" | "desc") => void;
-  setViewMode: (m: TaskStoreState["viewMode"]) => void;
+  setViewMode: (m: TaskViewMode) => void;
+  setBoardGroupBy: (g: TaskBoardGroupBy) => void;
 
   setFilterByStatus: (s: TaskStoreState["filterByStatus"]) => void;
   setFilterByPriority: (p: TaskStoreState["filterByPriority"]) => void;
+  setFilterByEvent: (id: string | null) => void;
   setShowCompletedTasks: (b: boolean) => void;
   setShowPersonalTasks: (b: boolean) => void;
 
+  toggleTaskSelected: (id: string) => void;
+  selectTaskRange: (id: string, orderedIds: string[]) => void; // Shift+click; `orderedIds` as displayed
+  selectAllMatchingTasks: () => void;
+  setSelectedTaskIds: (ids: string[]) => void;
+  clearTaskSelection: () => void;
+
   setTaskFilters: (
     partial: Partial<
       Omit<
@@ -91,127 +330,124 @@ export interface TaskStoreState {
 }
 
 export const useTaskStore = create<TaskStoreState>()(
-  devtools((set) => ({
-    selectedTaskId: null,
-    totalCount: 0,
-    showingCount: 0,
-
-    searchKeyword: "",
-    quickFilter: "Due Date",
-    taskSortBy: "Due Date (Earliest)",
-    taskSortDirection: "asc",
-    viewMode: "List View",
-
-    filterByStatus: ["To Do", "In Progress", "Done"],
-    filterByPriority: ["Urgent", "High", "Normal", "Low"],
-    showCompletedTasks: true,
-    showPersonalTasks: true,
-
-    setSelectedTaskId: (id) => set({ selectedTaskId: id }),
-    setTotalCount: (n) => set({ totalCount: n }),
-    setShowingCount: (n) => set({ showingCount: n }),
-
-    setSearchKeyword: (s) => set({ searchKeyword: s }),
-    setQuickFilter: (f) => set({ quickFilter: f }),
-    setTaskSortBy: (s) => set({ taskSortBy: s }),
-    setTaskSortDirection: (d) => set({ taskSortDirection: d }),
-    setViewMode: (m) => set({ viewMode: m }),
-
-    setFilterByStatus: (s) => set({ filterByStatus: s }),
-    setFilterByPriority: (p) => set({ filterByPriority: p }),
-    setShowCompletedTasks: (b) => set({ showCompletedTasks: b }),
-    setShowPersonalTasks: (b) => set({ showPersonalTasks: b }),
-
-    setTaskFilters: (partial) =>
-      set((state) => ({
-        ...state,
-        ...partial,
-      })),
-  }))
-);
+  devtools(
+    persist(
+      (set) => ({
+        ...DEFAULT_TASK_VIEW,
 
-// -----------------------------
-// Supabase API functions
-// -----------------------------
-async function fetchTasks(params: Record<string, any>) {
-  let query = supabase.from("tasks").select("*");
+        selectedTaskId: null,
+        totalCount: 0,
+        showingCount: 0,
 
-  // Search
-  if (params.search) {
-    query = query.ilike("title", `%${params.search}%`);
-  }
+        searchKeyword: "",
 
-  // Filter: status / priority
-  if (params.status) {
-    query = query.in("status", params.status.split(","));
-  }
-  if (params.priority) {
-    query = query.in("priority", params.priority.split(","));
-  }
+        taskSelection: EMPTY_SELECTION,
+        selectionAnchorId: null,
 
-  // Filter completed / personal
-  if (params.showCompleted === "0") {
-    query = query.neq("status", "Done");
-  }
-  if (params.showPersonal === "0") {
-    query = query.eq("isPersonal", false);
-  }
+        setSelectedTaskId: (id) => set({ selectedTaskId: id }),
+        setTotalCount: (n) => set({ totalCount: n }),
+        setShowingCount: (n) => set({ showingCount: n }),
 
-  // Sorting
-  const ascending = params.sortDirection === "asc";
-  switch (params.sortBy) {
-    case "Due Date (Latest)":
-      query = query.order("dueDate", { ascending: false });
-      break;
-    case "Priority (High to Low)":
-      query = query.order("priority", { ascending: false });
-      break;
-    case "Priority (Low to High)":
-      query = query.order("priority", { ascending: true });
-      break;
-    case "Name (A-Z)":
-      query = query.order("title", { ascending: true });
-      break;
-    case "Name (Z-A)":
-      query = query.order("title", { ascending: false });
-      break;
-    default:
-      query = query.order("dueDate", { ascending });
-  }
+        setSearchKeyword: (s) => set({ searchKeyword: s }),
+        setQuickFilter: (f) => set({ quickFilter: f }),
+        setTaskSortBy: (s) => set({ taskSortBy: s }),
+        setTaskSortDirection: (d) => set({ taskSortDirection: d }),
+        setViewMode: (m) => set({ viewMode: m }),
+        setBoardGroupBy: (g) => set({ boardGroupBy: g }),
 
-  const { data, error } = await query;
-  if (error) throw error;
-  return data as Task[];
+        setFilterByStatus: (s) => set({ filterByStatus: s }),
+        setFilterByPriority: (p) => set({ filterByPriority: p }),
+        setFilterByEvent: (id) => set({ filterByEvent: id }),
+        setShowCompletedTasks: (b) => set({ showCompletedTasks: b }),
+        setShowPersonalTasks: (b) => set({ showPersonalTasks: b }),
+
+        toggleTaskSelected: (id) =>
+          set((state) => ({
+            taskSelection: withSelected(
+              state.taskSelection,
+              [id],
+              !isTaskSelected(state.taskSelection, id)
+            ),
+            selectionAnchorId: id,
+          })),
+        // Selects every row between the anchor and `id`, keeping the anchor
+        selectTaskRange: (id, orderedIds) =>
+          set((state) => {
+            const from = orderedIds.indexOf(state.selectionAnchorId ?? "");
+            const to = orderedIds.indexOf(id);
+            if (from === -1 || to === -1) {
+              return {
+                taskSelection: withSelected(state.taskSelection, [id], true),
+                selectionAnchorId: id,
+              };
+            }
+            const range = orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+            return { taskSelection: withSelected(state.taskSelection, range, true) };
+          }),
+        selectAllMatchingTasks: () =>
+          set({ taskSelection: { mode: "matching", excludedIds: [] }, selectionAnchorId: null }),
+        setSelectedTaskIds: (ids) => set({ taskSelection: { mode: "ids", ids } }),
+        clearTaskSelection: () => set({ taskSelection: EMPTY_SELECTION, selectionAnchorId: null }),
+
+        setTaskFilters: (partial) =>
+          set((state) => ({
+            ...state,
+            ...partial,
+          })),
+      }),
+      {
+        name: "task-view", // key in localStorage
+        version: 1,
+        storage: createJSONStorage(() => taskViewStorage),
+        partialize: (state): TaskViewState => pickTaskView(state),
+        migrate: (persisted, version) =>
+          version === 0
+            ? migrateLegacyTaskView((persisted ?? {}) as Record<string, unknown>)
+            : (persisted as TaskViewState),
+      }
+    )
+  )
+);
+
+// -----------------------------
+// Data Access (see src/data)
+// -----------------------------
+async function fetchTasks(params: TaskListParams) {
+  return getRepositories().tasks.list(params);
 }
 
 async function fetchTaskById(id: string) {
-  const { data, error } = await supabase.from("tasks").select("*").eq("id", id).single();
-  if (error) throw error;
-  return data as Task;
+  return getRepositories().tasks.getById(id);
 }
 
+// Writes are queued while offline (see useOfflineQueueStore)
 async function createTask(data: Partial<Task>) {
-  const { data: result, error } = await supabase.from("tasks").insert(data).select().single();
-  if (error) throw error;
-  return result as Task;
+  return createOrQueue("tasks", data);
 }
 
-async function updateTask(id: string, data: Partial<Task>) {
-  const { data: result, error } = await supabase.from("tasks").update(data).eq("id", id).select().single();
-  if (error) throw error;
-  return result as Task;
+async function updateTask(id: string, data: Partial<Task>, base?: Task) {
+  return updateOrQueue("tasks", id, data, base);
 }
 
-async function deleteTask(id: string) {
-  const { error } = await supabase.from("tasks").delete().eq("id", id);
-  if (error) throw error;
-  return id;
+// Permanent; deleting from the UI moves tasks to the trash (`deletedAt`)
+async function purgeTask(id: string) {
+  return removeOrQueue("tasks", id);
 }
 
 // -----------------------------
 // React Query Hooks
 // -----------------------------
-export function useFetchTasks() {
+// What the quick filter presets see; "today" follows the clock (`useNow`)
+function useQuickFilterContext(): QuickFilterContext {
+  const weekStartsOn = useUiStore((s) => s.weekStartsOn);
+  const today = useNow(useUiStore((s) => s.timeZone)).slice(0, 10);
+  const { user } = useAuth();
+  return { today, weekStartsOn, currentUserId: user?.id ?? null };
+}
+
+// Current filter/sort state mapped to repository params; also used as the
+// query key and by the .ics export
+export function useTaskListParams(): TaskListParams {
   const {
     searchKeyword,
     quickFilter,
@@ -219,39 +455,170 @@ export function useFetchTasks() {
     taskSortDirection,
     filterByStatus,
     filterByPriority,
+    filterByEvent,
     showCompletedTasks,
     showPersonalTasks,
   } = useTaskStore();
+  const timeZone = useUiStore((s) => s.timeZone);
+  const advancedFilters = useUiStore((s) => s.advancedFilters);
+  const quickFilterContext = useQuickFilterContext();
+
+  const where: TaskPredicate[] = [
+    ...resolveQuickFilter(quickFilter, quickFilterContext),
+    ...getAdvancedFilterPredicates(advancedFilters, timeZone),
+  ];
+  if (filterByEvent) {
+    where.push({ field: "eventId", op: "eq", value: filterByEvent });
+  }
+
+  return {
+    search: searchKeyword,
+    sortBy: taskSortBy,
+    sortDirection: taskSortDirection,
+    // An empty selection means "no filter", not "match nothing"
+    status: filterByStatus.length ? filterByStatus : undefined,
+    priority: filterByPriority.length ? filterByPriority : undefined,
+    showCompleted: showCompletedTasks,
+    showPersonal: showPersonalTasks,
+    where,
+  };
+}
+
+// Keep `totalCount` / `showingCount` in the store in sync with the latest result
+function useSyncTaskCounts(totalCount?: number, showingCount?: number) {
+  const setTotalCount = useTaskStore((s) => s.setTotalCount);
+  const setShowingCount = useTaskStore((s) => s.setShowingCount);
+
+  useEffect(() => {
+    if (totalCount === undefined || showingCount === undefined) return;
+    setTotalCount(totalCount);
+    setShowingCount(showingCount);
+  }, [totalCount, showingCount, setTotalCount, setShowingCount]);
+}
+
+// Load the next page right away while the last one was narrowed to a few
+// rows (see `isNarrowedPage`), so the list does not stall on it
+function useLoadPastNarrowedPage(query: UseInfiniteQueryResult<InfiniteData<ListResult<Task>, number>>) {
+  const { data, isFetchingNextPage, isFetchNextPageError, fetchNextPage } = query;
+  const lastPage = data?.pages[data.pages.length - 1];
+  const narrowed = !!lastPage && isNarrowedPage(lastPage);
+
+  useEffect(() => {
+    if (narrowed && !isFetchingNextPage && !isFetchNextPageError) fetchNextPage();
+  }, [narrowed, isFetchingNextPage, isFetchNextPageError, fetchNextPage]);
+}
+
+// Repeating tasks are listed once, as their next occurrence. The cache keeps
+// the stored rows; this runs when a list is read. A series let through by a
+// deadline preset stays only if that occurrence is due in `dueRange` (see
+// `useQuickFilterDueRange`). Dropped series stay in `totalCount`.
+function useSelectOccurrences(dueRange?: DateRange | null) {
+  const today = useNow(useUiStore((s) => s.timeZone)).slice(0, 10);
+  const rangeKey = JSON.stringify(dueRange ?? null); // rebuilt every render
+  return useCallback(
+    (result: ListResult<Task>) => {
+      const listed = toListOccurrences("tasks", result, today);
+      const range: DateRange | null = JSON.parse(rangeKey);
+      if (!range) return listed;
+      const items = listed.items.filter((task) => !task.recurrence || isDeadlineInRange(task, range));
+      return { ...listed, items };
+    },
+    [today, rangeKey]
+  );
+}
+
+// The days the current quick filter wants repeating tasks due on
+function useQuickFilterDueRange() {
+  const quickFilter = useTaskStore((s) => s.quickFilter);
+  return getQuickFilterDueRange(quickFilter, useQuickFilterContext());
+}
+
+export function useFetchTasks({ page = 1, pageSize = DEFAULT_PAGE_SIZE }: PageParams = {}) {
+  const params = { ...useTaskListParams(), page, pageSize };
+  const selectOccurrences = useSelectOccurrences(useQuickFilterDueRange());
+
+  const query = useQuery({
+    queryKey: ["tasks", params],
+    queryFn: () => fetchTasks(params),
+    placeholderData: (prev) => prev,
+    select: selectOccurrences,
+  });
 
+  useSyncTaskCounts(getListedCount(query.data ? [query.data] : []), query.data?.items.length);
+  return query;
+}
+
+// Infinite-scrolling variant for List and Board views
+export function useInfiniteTasks(pageSize = DEFAULT_PAGE_SIZE) {
+  const params = { ...useTaskListParams(), pageSize };
+  const selectOccurrences = useSelectOccurrences(useQuickFilterDueRange());
+  const selectPages = useCallback(
+    (data: InfiniteData<ListResult<Task>, number>) => ({
+      ...data,
+      pages: data.pages.map(selectOccurrences),
+    }),
+    [selectOccurrences]
+  );
+
+  const query = useInfiniteQuery({
+    queryKey: ["tasks", "infinite", params],
+    queryFn: ({ pageParam }) => fetchTasks({ ...params, page: pageParam }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => lastPage.nextPage,
+    select: selectPages,
+  });
+
+  const pages = query.data?.pages;
+  useSyncTaskCounts(
+    getListedCount(pages ?? []),
+    pages?.reduce((sum, p) => sum + p.items.length, 0)
+  );
+  useLoadPastNarrowedPage(query);
+  return query;
+}
+
+// Tasks in the trash, in the default task order. Kept under ["tasks", …] so
+// trashing and restoring move tasks in and out of it like any other list.
+export function useTrashedTasks({ page = 1, pageSize = DEFAULT_PAGE_SIZE }: PageParams = {}) {
+  const params: TaskListParams = { trashed: true, page, pageSize };
   return useQuery({
-    queryKey: [
-      "tasks",
-      {
-        searchKeyword,
-        quickFilter,
-        taskSortBy,
-        taskSortDirection,
-        filterByStatus,
-        filterByPriority,
-        showCompletedTasks,
-        showPersonalTasks,
-      },
-    ],
-    queryFn: () =>
-      fetchTasks({
-        search: searchKeyword,
-        quickFilter,
-        sortBy: taskSortBy,
-        sortDirection: taskSortDirection,
-        status: filterByStatus.join(","),
-        priority: filterByPriority.join(","),
-        showCompleted: showCompletedTasks ? "1" : "0",
-        showPersonal: showPersonalTasks ? "1" : "0",
-      }),
+    queryKey: ["tasks", params],
+    queryFn: () => fetchTasks(params),
+    placeholderData: (prev) => prev,
+  });
+}
+
+// Tasks due or scheduled within the range, for the calendar. The task view
+// filters still apply; every matching row is loaded, a page at a time.
+export function useCalendarTasks(range: CalendarRange) {
+  const { where = [], ...filters } = useTaskListParams();
+  const params: TaskListParams = { ...filters, where: [...where, getCalendarTaskPredicate(range)] };
+
+  return useQuery({
+    queryKey: ["tasks", params],
+    queryFn: () => listAllResult(fetchTasks, params),
     placeholderData: (prev) => prev,
   });
 }
 
+// Untrashed tasks linked to an event (`eventId`), earliest due first.
+// Ignores the task list filters.
+export function useEventTasks(eventId?: string | null) {
+  const params: TaskListParams = {
+    where: [{ field: "eventId", op: "eq", value: eventId ?? "" }],
+    sortBy: "Due Date (Earliest)",
+    sortDirection: "asc",
+  };
+  const selectOccurrences = useSelectOccurrences();
+
+  return useQuery({
+    queryKey: ["tasks", params],
+    queryFn: () => fetchTasks(params),
+    enabled: !!eventId,
+    select: selectOccurrences,
+  });
+}
+
 export function useFetchTask(taskId?: string | null) {
   return useQuery({
     queryKey: ["task", taskId],
@@ -266,9 +633,16 @@ export function useCreateTask() {
 
   return useMutation({
     mutationFn: createTask,
-    onSuccess: () => {
-      toast.success("Task created");
-      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    networkMode: "always", // queued while offline
+    onSuccess: (task) => {
+      if (isQueued("tasks", task.id)) {
+        recordChange("Task saved offline, it will sync when you're back online", createdChange("tasks", task));
+        addTaskToCache(queryClient, task);
+      } else {
+        recordChange("Task created", createdChange("tasks", task));
+        queryClient.invalidateQueries({ queryKey: ["tasks"] });
+        queryClient.invalidateQueries({ queryKey: ["events"] }); // progress is derived from tasks
+      }
       closeModal();
     },
     onError: (err) => {
@@ -278,55 +652,541 @@ export function useCreateTask() {
   });
 }
 
-export function useUpdateTask() {
+// Changes to these fields move the derived `progress` of linked events
+const affectsEventProgress = (data: Partial<Task>) =>
+  "status" in data || "eventId" in data || "deletedAt" in data;
+
+// Changes to these fields can flip the derived `isBlocked` of the tasks a
+// task blocks. Lists holding such a task are refetched.
+const affectsBlockedState = (data: Partial<Task>) => "status" in data || "deletedAt" in data;
+
+function invalidateDependents(queryClient: QueryClient, ids: string[]) {
+  if (findCachedTasks(queryClient, (task) => !!task.blockedBy?.some((id) => ids.includes(id))).length) {
+    queryClient.invalidateQueries({ queryKey: ["tasks"] });
+  }
+}
+
+// Completing a blocked task is allowed, with a warning naming its blockers
+function warnIfCompletingBlocked(
+  queryClient: QueryClient,
+  updates: { previous?: Task; data: Partial<Task> }[]
+) {
+  const blocked = updates.flatMap(({ previous, data }) =>
+    previous?.isBlocked && data.status === "Done" && previous.status !== "Done" ? [previous] : []
+  );
+  if (!blocked.length) return;
+
+  if (blocked.length > 1) {
+    toast(`${countTasks(blocked.length)} are still blocked by unfinished tasks`, { icon: "⚠️" });
+    return;
+  }
+  const blockers = getUnfinishedBlockers(blocked[0], (id) => findCachedTask(queryClient, id));
+  const names = blockers.length ? blockers.map((blocker) => `"${blocker.title}"`).join(", ") : "unfinished tasks";
+  toast(`"${blocked[0].title}" is still blocked by ${names}`, { icon: "⚠️" });
+}
+
+// Patch every cached copy of the task right away, roll back on error, then
+// reconcile with the server's row and refetch only the lists that need it.
+function useOptimisticTaskUpdate<TVariables>({
+  toUpdate,
+  successMessage,
+  errorMessage,
+  onSuccess,
+}: {
+  toUpdate: (variables: TVariables) => { id: string; data: Partial<Task> };
+  successMessage: string;
+  errorMessage: string;
+  onSuccess?: () => void;
+}) {
   const queryClient = useQueryClient();
-  const closeModal = useUiStore((s) => s.closeAllModals);
 
   return useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<Task> }) =>
-      updateTask(id, data),
-    onSuccess: () => {
-      toast.success("Task updated");
-      queryClient.invalidateQueries({ queryKey: ["tasks"] });
-      closeModal();
+    mutationFn: (variables: TVariables) => {
+      const { id, data } = toUpdate(variables);
+      const base = findCachedTask(queryClient, id);
+      return withLocalWrite("tasks", id, () => updateTask(id, data, base));
     },
-    onError: (err) => {
+    networkMode: "always", // queued while offline
+    onMutate: async (variables) => {
+      const { id, data } = toUpdate(variables);
+      const snapshot = await snapshotTaskCache(queryClient, id);
+      const previous = findCachedTask(queryClient, id);
+      const stale = previous ? writeTaskToCache(queryClient, { ...previous, ...data, id }) : [];
+      warnIfCompletingBlocked(queryClient, [{ previous, data }]);
+      return { snapshot, stale, previous };
+    },
+    onSuccess: (task, variables, context) => {
+      recordChange(
+        isQueued("tasks", task.id) ? `${successMessage} (pending sync)` : successMessage,
+        updatedChange("tasks", context?.previous, toUpdate(variables).data)
+      );
+      refetchExact(queryClient, [...(context?.stale ?? []), ...writeTaskToCache(queryClient, task)]);
+      if (affectsEventProgress(toUpdate(variables).data)) {
+        queryClient.invalidateQueries({ queryKey: ["events"] }); // progress is derived from tasks
+      }
+      if (affectsBlockedState(toUpdate(variables).data)) invalidateDependents(queryClient, [task.id]);
+      onSuccess?.();
+    },
+    onError: (err, _variables, context) => {
       console.error(err);
-      toast.error("Failed to update task");
+      if (context) restoreTaskCache(queryClient, context.snapshot);
+      toast.error(errorMessage);
     },
   });
 }
 
+export function useUpdateTask() {
+  const closeModal = useUiStore((s) => s.closeAllModals);
+
+  return useOptimisticTaskUpdate({
+    toUpdate: (variables: { id: string; data: Partial<Task> }) => variables,
+    successMessage: "Task updated",
+    errorMessage: "Failed to update task",
+    onSuccess: closeModal,
+  });
+}
+
+// Drag to another day / time on the calendar
+export function useRescheduleTask() {
+  return useOptimisticTaskUpdate({
+    toUpdate: (variables: { id: string; data: Partial<Task> }) => variables,
+    successMessage: "Task rescheduled",
+    errorMessage: "Failed to reschedule task",
+  });
+}
+
+// Moves the task to the trash; it leaves every list except the trash
 export function useDeleteTask() {
+  return useOptimisticTaskUpdate({
+    toUpdate: (id: string) => ({ id, data: { deletedAt: new Date().toISOString() } }),
+    successMessage: "Task moved to trash",
+    errorMessage: "Failed to delete task",
+  });
+}
+
+export function useRestoreTask() {
+  return useOptimisticTaskUpdate({
+    toUpdate: (id: string) => ({ id, data: { deletedAt: null } }),
+    successMessage: "Task restored",
+    errorMessage: "Failed to restore task",
+  });
+}
+
+// Deletes the task for good (emptying the trash); cannot be undone
+export function usePurgeTask() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: deleteTask,
-    onSuccess: () => {
-      toast.success("Task deleted");
-      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    mutationFn: (id: string) => withLocalWrite("tasks", id, () => purgeTask(id)),
+    networkMode: "always", // queued while offline
+    onMutate: async (id) => {
+      const snapshot = await snapshotTaskCache(queryClient, id);
+      const previous = findCachedTask(queryClient, id);
+      removeTaskFromCache(queryClient, id);
+      return { snapshot, previous };
     },
-    onError: (err) => {
+    onSuccess: (id, _variables, context) => {
+      recordChange(isQueued("tasks", id) ? "Task deleted (pending sync)" : "Task permanently deleted");
+      // Unknown tasks may have been linked to an event (trashed ones no longer count)
+      if (!context?.previous || (context.previous.eventId && !context.previous.deletedAt)) {
+        queryClient.invalidateQueries({ queryKey: ["events"] });
+      }
+      invalidateDependents(queryClient, [id]);
+    },
+    onError: (err, _variables, context) => {
       console.error(err);
+      if (context) restoreTaskCache(queryClient, context.snapshot);
       toast.error("Failed to delete task");
     },
   });
 }
 
 export function useMarkTaskComplete() {
-  const queryClient = useQueryClient();
-  return useMutation({
-    mutationFn: ({ id, completed }: { id: string; completed: boolean }) =>
-      updateTask(id, {
+  return useOptimisticTaskUpdate({
+    toUpdate: ({ id, completed }: { id: string; completed: boolean }) => ({
+      id,
+      data: {
         status: completed ? "Done" : "In Progress",
         progress: completed ? 100 : undefined,
-      }),
-    onSuccess: () => {
-      toast.success("Task status updated");
-      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      },
+    }),
+    successMessage: "Task status updated",
+    errorMessage: "Failed to update task status",
+  });
+}
+
+// -----------------------------
+// Deadlines
+// -----------------------------
+// Overdue / due soon are derived from `dueDate` / `scheduleEnd` (see
+// features/tasks/taskDeadlines) and follow the clock without refetching.
+
+// For list rows and cards: `getStatus(task)` is "overdue", "dueSoon",
+// "upcoming" or null (no deadline, done or trashed)
+export function useTaskDeadlineStatus() {
+  const now = useNow(useUiStore((s) => s.timeZone));
+  const getStatus = useCallback((task: Task) => getDeadlineStatus(task, now), [now]);
+  return { now, getStatus };
+}
+
+// Overdue and due-soon tasks, earliest deadline first, for the upcoming
+// deadlines dashboard widget. Ignores the task list filters.
+export function useUpcomingDeadlines({ limit }: { limit?: number } = {}) {
+  const now = useNow(useUiStore((s) => s.timeZone));
+  const today = now.slice(0, 10);
+  const params: TaskListParams = {
+    where: getUpcomingDeadlinePredicates(today),
+    sortBy: "Due Date (Earliest)",
+    sortDirection: "asc",
+  };
+  const select = useCallback(
+    (result: ListResult<Task>) => {
+      const items = getUpcomingDeadlines(toListOccurrences("tasks", result, today).items, now, DUE_SOON_DAYS);
+      return { ...result, items: items.slice(0, limit), totalCount: items.length };
+    },
+    [today, now, limit]
+  );
+
+  return useQuery({
+    queryKey: ["tasks", params],
+    queryFn: () => fetchTasks(params),
+    select,
+  });
+}
+
+// -----------------------------
+// Subtasks
+// -----------------------------
+// One-subtask edits from list and board cards, without the form. `task` is
+// the row as shown; each edit is applied to the row in the cache when it is
+// made (an earlier edit may not have reached the card yet) and writes the
+// whole `subtasks` array with the `progress` it rolls up to and, when
+// `useUiStore.autoTaskStatus` is on, the status it implies (see
+// subtasks.ts). Optimistic like `useUpdateTask`.
+function useSubtaskUpdate<TVariables extends { task: Task }>({
+  toSubtasks,
+  successMessage,
+  errorMessage,
+}: {
+  toSubtasks: (subtasks: Subtask[], variables: TVariables) => Subtask[];
+  successMessage: string;
+  errorMessage: string;
+}) {
+  const queryClient = useQueryClient();
+  const autoStatus = useUiStore((s) => s.autoTaskStatus);
+  // Planned once per edit: first in `onMutate`, before the optimistic write,
+  // then reused by the request, its retries and the undo entry
+  const plans = useRef(new WeakMap<TVariables, { id: string; data: Partial<Task> }>());
+
+  return useOptimisticTaskUpdate({
+    toUpdate: (variables: TVariables) => {
+      let plan = plans.current.get(variables);
+      if (!plan) {
+        const task = findCachedTask(queryClient, variables.task.id) ?? variables.task;
+        plan = {
+          id: task.id,
+          data: planSubtaskUpdate(task, toSubtasks(task.subtasks ?? [], variables), { autoStatus }),
+        };
+        plans.current.set(variables, plan);
+      }
+      return plan;
+    },
+    successMessage,
+    errorMessage,
+  });
+}
+
+export function useToggleSubtask() {
+  return useSubtaskUpdate({
+    toSubtasks: (subtasks, { subtaskId, completed }: { task: Task; subtaskId: string; completed: boolean }) =>
+      toggleSubtask(subtasks, subtaskId, completed),
+    successMessage: "Subtask updated",
+    errorMessage: "Failed to update subtask",
+  });
+}
+
+// `subtask` from `createSubtask(title)`, so every retry writes the same id
+export function useAddSubtask() {
+  return useSubtaskUpdate({
+    toSubtasks: (subtasks, { subtask }: { task: Task; subtask: Subtask }) => addSubtask(subtasks, subtask),
+    successMessage: "Subtask added",
+    errorMessage: "Failed to add subtask",
+  });
+}
+
+// `toIndex`: the position among the other subtasks
+export function useReorderSubtask() {
+  return useSubtaskUpdate({
+    toSubtasks: (subtasks, { subtaskId, toIndex }: { task: Task; subtaskId: string; toIndex: number }) =>
+      moveSubtask(subtasks, subtaskId, toIndex),
+    successMessage: "Subtask moved",
+    errorMessage: "Failed to move subtask",
+  });
+}
+
+export function useRemoveSubtask() {
+  return useSubtaskUpdate({
+    toSubtasks: (subtasks, { subtaskId }: { task: Task; subtaskId: string }) =>
+      removeSubtask(subtasks, subtaskId),
+    successMessage: "Subtask removed",
+    errorMessage: "Failed to remove subtask",
+  });
+}
+
+// -----------------------------
+// Bulk Actions
+// -----------------------------
+// Act on `taskSelection`. Every task is patched in the cache right away;
+// tasks whose request fails are put back and stay selected, the rest are
+// reconciled with the server and deselected. One toast sums up the result.
+export interface BulkTaskChange {
+  status?: Task["status"];
+  priority?: Task["priority"];
+  dueDate?: string | null;
+  assignees?: string[]; // replaces the assignees
+  addAssignees?: string[];
+  removeAssignees?: string[];
+}
+
+export interface BulkTaskResult {
+  updated: { previous: Task; task: Task; data: Partial<Task> }[];
+  failed: { task: Task; error: unknown }[];
+}
+
+const BULK_CONCURRENCY = 10;
+
+function toBulkUpdate(task: Task, change: BulkTaskChange): Partial<Task> {
+  const { addAssignees = [], removeAssignees = [], ...data } = change;
+  if (!addAssignees.length && !removeAssignees.length) return data;
+
+  const assignees = new Set([...(data.assignees ?? task.assignees), ...addAssignees]);
+  removeAssignees.forEach((assignee) => assignees.delete(assignee));
+  return { ...data, assignees: [...assignees] };
+}
+
+async function resolveSelectedTasks(
+  queryClient: QueryClient,
+  selection: TaskSelection,
+  params: TaskListParams
+): Promise<Task[]> {
+  if (selection.mode === "matching") {
+    const items = await listAll(fetchTasks, params);
+    return items.filter((task) => !selection.excludedIds.includes(task.id));
+  }
+  return Promise.all(
+    selection.ids.map((id) => findCachedTask(queryClient, id) ?? fetchTaskById(id))
+  );
+}
+
+const countTasks = (n: number) => `${n} task${n === 1 ? "" : "s"}`;
+
+function useBulkTaskUpdate<TVariables>({
+  toUpdate,
+  successMessage,
+  failureMessage,
+}: {
+  toUpdate: (task: Task, variables: TVariables, now: string) => Partial<Task>;
+  successMessage: (count: number) => string; // "Updated 3 tasks"
+  failureMessage: (count: number) => string; // "Couldn't update 2 tasks"
+}) {
+  const queryClient = useQueryClient();
+  const params = useTaskListParams();
+
+  return useMutation({
+    mutationFn: async (variables: TVariables): Promise<BulkTaskResult> => {
+      const tasks = await resolveSelectedTasks(
+        queryClient,
+        useTaskStore.getState().taskSelection,
+        params
+      );
+      const now = new Date().toISOString();
+      const updates = tasks.map((task) => ({ previous: task, data: toUpdate(task, variables, now) }));
+      warnIfCompletingBlocked(queryClient, updates);
+
+      await queryClient.cancelQueries({ queryKey: ["tasks"] });
+      const stale = updates.flatMap(({ previous, data }) =>
+        writeTaskToCache(queryClient, { ...previous, ...data })
+      );
+
+      const result: BulkTaskResult = { updated: [], failed: [] };
+      for (let i = 0; i < updates.length; i += BULK_CONCURRENCY) {
+        const batch = updates.slice(i, i + BULK_CONCURRENCY);
+        const settled = await Promise.allSettled(
+          batch.map(({ previous, data }) =>
+            withLocalWrite("tasks", previous.id, () => updateTask(previous.id, data, previous))
+          )
+        );
+
+        settled.forEach((outcome, j) => {
+          const { previous, data } = batch[j];
+          if (outcome.status === "fulfilled") {
+            result.updated.push({ previous, task: outcome.value, data });
+            stale.push(...writeTaskToCache(queryClient, outcome.value));
+          } else {
+            result.failed.push({ task: previous, error: outcome.reason });
+            stale.push(...writeTaskToCache(queryClient, previous));
+          }
+        });
+      }
+
+      refetchExact(queryClient, stale);
+      return result;
+    },
+    networkMode: "always", // queued while offline
+    onSuccess: ({ updated, failed }) => {
+      if (updated.length) {
+        recordChange(
+          successMessage(updated.length),
+          combineChanges(updated.map(({ previous, data }) => updatedChange("tasks", previous, data)))
+        );
+        if (updated.some(({ data }) => affectsEventProgress(data))) {
+          queryClient.invalidateQueries({ queryKey: ["events"] }); // progress is derived from tasks
+        }
+        invalidateDependents(
+          queryClient,
+          updated.filter(({ data }) => affectsBlockedState(data)).map(({ task }) => task.id)
+        );
+      }
+      if (failed.length) {
+        failed.forEach(({ error }) => console.error(error));
+        const titles = failed.slice(0, 3).map(({ task }) => `"${task.title}"`);
+        const more = failed.length > titles.length ? ` and ${failed.length - titles.length} more` : "";
+        toast.error(`${failureMessage(failed.length)}: ${titles.join(", ")}${more}`);
+      }
+      useTaskStore.getState().setSelectedTaskIds(failed.map(({ task }) => task.id));
     },
     onError: (err) => {
       console.error(err);
-      toast.error("Failed to update task status");
+      toast.error("Failed to load the selected tasks");
     },
   });
 }
+
+// Status, priority, due date and/or assignees for every selected task
+export function useBulkUpdateTasks() {
+  return useBulkTaskUpdate({
+    toUpdate: (task, change: BulkTaskChange) => toBulkUpdate(task, change),
+    successMessage: (count) => `Updated ${countTasks(count)}`,
+    failureMessage: (count) => `Couldn't update ${countTasks(count)}`,
+  });
+}
+
+// Moves every selected task to the trash
+export function useBulkDeleteTasks() {
+  return useBulkTaskUpdate({
+    toUpdate: (_task, _variables: void, now) => ({ deletedAt: now }),
+    successMessage: (count) => `Moved ${countTasks(count)} to trash`,
+    failureMessage: (count) => `Couldn't delete ${countTasks(count)}`,
+  });
+}
+
+// -----------------------------
+// Board View
+// -----------------------------
+// Columns are built from every loaded `useInfiniteTasks()` page, grouped by
+// `boardGroupBy`. Dropping a card changes the grouped field (status,
+// priority or that one assignee) and its rank in that grouping; see
+// taskBoard.ts.
+export interface TaskBoardMove {
+  taskId: string;
+  fromColumn: string;
+  toColumn: string;
+  toIndex: number; // position in the target column, the moved card left out
+}
+
+// Several task writes applied as one optimistic change, one request (all or
+// nothing) and one undo entry. If it fails the cache is put back.
+export function useMoveTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ updates }: { updates: TaskBoardUpdate[] }) => {
+      const write = () =>
+        updateBoardOrQueue(updates.map((update) => ({ ...update, base: findCachedTask(queryClient, update.id) })));
+      // Our own echo is expected for every task in the move
+      return updates.reduceRight<() => Promise<Task[]>>(
+        (next, { id }) => () => withLocalWrite("tasks", id, next),
+        write
+      )();
+    },
+    networkMode: "always", // queued while offline
+    onMutate: async ({ updates }) => {
+      const snapshot = await snapshotTaskCache(queryClient, updates.map(({ id }) => id));
+      const previous = updates.map(({ id }) => findCachedTask(queryClient, id));
+      const stale = updates.flatMap(({ id, data }, i) => {
+        const task = previous[i];
+        return task ? writeTaskToCache(queryClient, { ...task, ...data, id }) : [];
+      });
+      warnIfCompletingBlocked(
+        queryClient,
+        updates.map(({ data }, i) => ({ previous: previous[i], data }))
+      );
+      return { snapshot, stale, previous };
+    },
+    onSuccess: (tasks, { updates }, context) => {
+      recordChange(
+        tasks.some((task) => isQueued("tasks", task.id)) ? "Task moved (pending sync)" : "Task moved",
+        combineChanges(
+          updates.map(({ data }, i) => updatedChange("tasks", context?.previous[i], data))
+        )
+      );
+      refetchExact(queryClient, [
+        ...(context?.stale ?? []),
+        ...tasks.flatMap((task) => writeTaskToCache(queryClient, task)),
+      ]);
+      if (updates.some(({ data }) => affectsEventProgress(data))) {
+        queryClient.invalidateQueries({ queryKey: ["events"] }); // progress is derived from tasks
+      }
+      invalidateDependents(
+        queryClient,
+        updates.filter(({ data }) => affectsBlockedState(data)).map(({ id }) => id)
+      );
+    },
+    onError: (err, _variables, context) => {
+      console.error(err);
+      if (context) restoreTaskCache(queryClient, context.snapshot);
+      toast.error("Failed to move task");
+    },
+  });
+}
+
+// Load more cards with `fetchNextPage` / `hasNextPage`, as in a list
+export function useTaskBoard(pageSize = DEFAULT_PAGE_SIZE) {
+  const groupBy = useTaskStore((s) => s.boardGroupBy);
+  const query = useInfiniteTasks(pageSize);
+  const { mutate, isPending } = useMoveTask();
+
+  const pages = query.data?.pages;
+  const columns = useMemo(
+    () => groupTasksIntoColumns(pages?.flatMap((page) => page.items) ?? [], groupBy),
+    [pages, groupBy]
+  );
+
+  const moveTask = useCallback(
+    ({ taskId, fromColumn, toColumn, toIndex }: TaskBoardMove) => {
+      const task = columns.find((c) => c.key === fromColumn)?.tasks.find((t) => t.id === taskId);
+      const target = columns.find((c) => c.key === toColumn);
+      if (!task || !target) return;
+
+      const columnTasks = target.tasks.filter((t) => t.id !== taskId);
+      const [moved, ...others] = planBoardRanks(columnTasks, taskId, toIndex, groupBy);
+      mutate({
+        updates: [
+          {
+            id: taskId,
+            data: {
+              ...getColumnChange(task, groupBy, fromColumn, toColumn),
+              ...withBoardRank(task, groupBy, moved.boardRank),
+            },
+          },
+          ...others.map(({ id, boardRank }) => ({
+            id,
+            data: withBoardRank(columnTasks.find((t) => t.id === id)!, groupBy, boardRank),
+          })),
+        ],
+      });
+    },
+    [columns, groupBy, mutate]
+  );
+
+  return { ...query, groupBy, columns, moveTask, isMoving: isPending };
+}
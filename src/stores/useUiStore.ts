@@ -1,6 +1,7 @@
 // src/stores/useUiStore.ts
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import { getDefaultTimeZone, type WeekStart } from "@/lib/dates";
 
 // -----------------------------
 // Type Definitions
@@ -29,13 +30,8 @@ export interface UiStore {
   isFilterPanelOpen: boolean;
   isUserSettingsOpen: boolean;
 
-  // Filters / Sorting
-  taskFilterStatus: string;
-  taskSortBy: string;
-  taskSortDirection: "asc" | "desc";
+  // Filters (task sort/view settings live in `useTaskStore`)
   advancedFilters: AdvancedFilters;
-  showCompletedTasks: boolean;
-  showPersonalTasks: boolean;
 
   // Selections / UI preferences
   currentEventId: string | null;
@@ -43,7 +39,9 @@ export interface UiStore {
   theme: "light" | "dark";
   isSidebarCollapsed: boolean;
   dashboardWidgetState: DashboardWidgetState;
-  viewMode: string;
+  weekStartsOn: WeekStart;
+  timeZone: string; // IANA name, e.g. "Asia/Bangkok"
+  autoTaskStatus: boolean; // checking off subtasks moves the task to "In Progress" / "Done"
 
   // -----------------------------
   // Actions
@@ -57,14 +55,9 @@ export interface UiStore {
   toggleFilterPanel: () => void;
   toggleUserSettings: () => void;
 
-  // Filters / Sorting
-  setTaskFilterStatus: (status: string) => void;
-  setTaskSortBy: (sortBy: string) => void;
-  setTaskSortDirection: (direction: "asc" | "desc") => void;
+  // Filters
   clearAdvancedFilters: () => void;
   setAdvancedFilters: (filters: Partial<AdvancedFilters>) => void;
-  setShowCompletedTasks: (show: boolean) => void;
-  setShowPersonalTasks: (show: boolean) => void;
 
   // Selections / Preferences
   setTheme: (theme: "light" | "dark") => void;
@@ -72,7 +65,33 @@ export interface UiStore {
   setCurrentEventId: (id: string | null) => void;
   setCurrentTaskId: (id: string | null) => void;
   setDashboardWidgetState: (widgets: Partial<DashboardWidgetState>) => void;
-  setViewMode: (mode: string) => void;
+  setWeekStartsOn: (day: WeekStart) => void;
+  setTimeZone: (timeZone: string) => void;
+  setAutoTaskStatus: (enabled: boolean) => void;
+}
+
+// -----------------------------
+// Helpers
+// -----------------------------
+const emptyAdvancedFilters: AdvancedFilters = {
+  advancedStatus: [],
+  advancedPriority: [],
+  advancedAssignees: [],
+  advancedDateRange: null,
+  hasActiveFilters: false,
+};
+
+// `hasActiveFilters` is always derived, never set by callers
+function withActiveFlag(filters: AdvancedFilters): AdvancedFilters {
+  const { advancedStatus, advancedPriority, advancedAssignees, advancedDateRange } = filters;
+  return {
+    ...filters,
+    hasActiveFilters:
+      advancedStatus.length > 0 ||
+      advancedPriority.length > 0 ||
+      advancedAssignees.length > 0 ||
+      !!(advancedDateRange?.startDate || advancedDateRange?.endDate),
+  };
 }
 
 // -----------------------------
@@ -90,18 +109,7 @@ export const useUiStore = create<UiStore>()(
       isFilterPanelOpen: false,
       isUserSettingsOpen: false,
 
-      taskFilterStatus: "Due Date",
-      taskSortBy: "Priority",
-      taskSortDirection: "desc",
-      advancedFilters: {
-        advancedStatus: [],
-        advancedPriority: [],
-        advancedAssignees: [],
-        advancedDateRange: null,
-        hasActiveFilters: false,
-      },
-      showCompletedTasks: true,
-      showPersonalTasks: true,
+      advancedFilters: emptyAdvancedFilters,
 
       currentEventId: null,
       currentTaskId: null,
@@ -114,7 +122,9 @@ export const useUiStore = create<UiStore>()(
         progressOverview: true,
         miniCalendar: false,
       },
-      viewMode: "list",
+      weekStartsOn: 1,
+      timeZone: getDefaultTimeZone(),
+      autoTaskStatus: false,
 
       // -----------------------------
       // Actions
@@ -146,27 +156,12 @@ export const useUiStore = create<UiStore>()(
       toggleUserSettings: () =>
         set((state) => ({ isUserSettingsOpen: !state.isUserSettingsOpen })),
 
-      // Filters / Sorting
-      setTaskFilterStatus: (status: string) => set({ taskFilterStatus: status }),
-      setTaskSortBy: (sortBy: string) => set({ taskSortBy: sortBy }),
-      setTaskSortDirection: (direction: "asc" | "desc") =>
-        set({ taskSortDirection: direction }),
-      clearAdvancedFilters: () =>
-        set({
-          advancedFilters: {
-            advancedStatus: [],
-            advancedPriority: [],
-            advancedAssignees: [],
-            advancedDateRange: null,
-            hasActiveFilters: false,
-          },
-        }),
+      // Filters
+      clearAdvancedFilters: () => set({ advancedFilters: emptyAdvancedFilters }),
       setAdvancedFilters: (filters: Partial<AdvancedFilters>) =>
         set((state) => ({
-          advancedFilters: { ...state.advancedFilters, ...filters },
+          advancedFilters: withActiveFlag({ ...state.advancedFilters, ...filters }),
         })),
-      setShowCompletedTasks: (show: boolean) => set({ showCompletedTasks: show }),
-      setShowPersonalTasks: (show: boolean) => set({ showPersonalTasks: show }),
 
       // Selections / Preferences
       setTheme: (theme: "light" | "dark") => set({ theme }),
@@ -176,21 +171,23 @@ export const useUiStore = create<UiStore>()(
       setCurrentTaskId: (id: string | null) => set({ currentTaskId: id }),
       setDashboardWidgetState: (widgets: Partial<DashboardWidgetState>) =>
         set((state) => ({ dashboardWidgetState: { ...state.dashboardWidgetState, ...widgets } })),
-      setViewMode: (mode: string) => set({ viewMode: mode }),
+      setWeekStartsOn: (day: WeekStart) => set({ weekStartsOn: day }),
+      setTimeZone: (timeZone: string) => set({ timeZone }),
+      setAutoTaskStatus: (enabled: boolean) => set({ autoTaskStatus: enabled }),
     }),
     {
       name: "ui-store", // key in localStorage
+      // Older entries also hold task sort/view keys; `useTaskStore` migrates
+      // them on first load, and they drop out here on the next write.
+      // Keep the version at 0 so hydration does not rewrite the entry first.
       partialize: (state) => ({
         // Only persist selected keys
         theme: state.theme,
         isSidebarCollapsed: state.isSidebarCollapsed,
-        taskFilterStatus: state.taskFilterStatus,
-        taskSortBy: state.taskSortBy,
-        taskSortDirection: state.taskSortDirection,
         dashboardWidgetState: state.dashboardWidgetState,
-        viewMode: state.viewMode,
-        showCompletedTasks: state.showCompletedTasks,
-        showPersonalTasks: state.showPersonalTasks,
+        weekStartsOn: state.weekStartsOn,
+        timeZone: state.timeZone,
+        autoTaskStatus: state.autoTaskStatus,
       }),
     }
   )
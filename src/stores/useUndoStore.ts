@@ -0,0 +1,169 @@
+// src/stores/useUndoStore.ts
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { toast } from "react-hot-toast";
+import type { Task } from "./useTaskStore";
+import type { Event } from "./useEventStore";
+import { isTemporaryId } from "./useOfflineQueueStore";
+import { dismissUndoToast, showUndoToast } from "@/features/history/UndoToast";
+
+// -----------------------------
+// Type Definitions
+// -----------------------------
+export type HistoryTable = "tasks" | "events";
+
+type HistoryRecord = { tasks: Task; events: Event };
+
+type Operation<T extends HistoryTable> =
+  | { table: T; type: "create"; record: Partial<HistoryRecord[T]> & { id: string } }
+  | { table: T; type: "update"; id: string; data: Partial<HistoryRecord[T]> }
+  | { table: T; type: "delete"; id: string };
+
+// One write, replayed through the regular mutation hooks (see useUndoRedo)
+export type HistoryOperation = Operation<"tasks"> | Operation<"events">;
+
+export interface HistoryChange {
+  undo: HistoryOperation[];
+  redo: HistoryOperation[];
+}
+
+export interface HistoryEntry extends HistoryChange {
+  id: string;
+  message: string; // the success toast, e.g. "Task deleted"
+  recordedAt: string;
+}
+
+const MAX_HISTORY = 50;
+
+// -----------------------------
+// Inverse Operations
+// -----------------------------
+// A created record is undone by deleting it; redo re-creates it with the
+// same id, so later history entries that refer to it stay valid. Records
+// created offline only get their id once synced, so changes to them are
+// not undoable.
+export function createdChange<T extends HistoryTable>(
+  table: T,
+  record: HistoryRecord[T]
+): HistoryChange | undefined {
+  if (isTemporaryId(record.id)) return undefined;
+  return {
+    undo: [{ table, type: "delete", id: record.id } as HistoryOperation],
+    redo: [{ table, type: "create", record } as HistoryOperation],
+  };
+}
+
+// Fields missing on `previous` are cleared on undo
+export function updatedChange<T extends HistoryTable>(
+  table: T,
+  previous: HistoryRecord[T] | undefined,
+  data: Partial<HistoryRecord[T]>
+): HistoryChange | undefined {
+  if (!previous || isTemporaryId(previous.id)) return undefined;
+
+  const before = Object.fromEntries(
+    Object.keys(data).map((field) => [field, previous[field as keyof typeof previous] ?? null])
+  );
+  return {
+    undo: [{ table, type: "update", id: previous.id, data: before } as HistoryOperation],
+    redo: [{ table, type: "update", id: previous.id, data } as HistoryOperation],
+  };
+}
+
+// One history entry for several writes, undone in reverse order. Not
+// undoable if any part is not.
+export function combineChanges(changes: (HistoryChange | undefined)[]): HistoryChange | undefined {
+  if (!changes.length || changes.some((change) => !change)) return undefined;
+  const parts = changes as HistoryChange[];
+  return {
+    undo: parts.flatMap((change) => change.undo).reverse(),
+    redo: parts.flatMap((change) => change.redo),
+  };
+}
+
+// -----------------------------
+// Zustand Store
+// -----------------------------
+// Operations are applied by the hooks registered through `useUndoRedo()`;
+// without it mounted, nothing is recorded and toasts carry no Undo action.
+let applyOperation: ((operation: HistoryOperation) => Promise<unknown>) | null = null;
+
+export function setHistoryApplier(apply: typeof applyOperation) {
+  applyOperation = apply;
+}
+
+interface UndoStoreState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  isApplying: boolean; // an undo/redo is running; its own writes are not recorded
+
+  push: (entry: HistoryEntry) => void;
+  undo: () => Promise<void>;
+  undoEntry: (entryId: string) => Promise<void>; // only while it is the newest entry (toast action)
+  redo: () => Promise<void>;
+  clear: () => void;
+}
+
+export const useUndoStore = create<UndoStoreState>()(
+  devtools((set, get) => {
+    // Apply one side of the newest entry and move it to the other stack.
+    // A failed entry stays where it was so it can be retried.
+    const run = async (direction: "undo" | "redo", entryId?: string) => {
+      const from = direction === "undo" ? "past" : "future";
+      const to = direction === "undo" ? "future" : "past";
+      const entry = get()[from].at(-1);
+      if (!entry || !applyOperation || get().isApplying) return;
+      if (entryId && entry.id !== entryId) return;
+
+      // Its Undo would now target a different entry
+      dismissUndoToast();
+      set({ isApplying: true });
+      try {
+        for (const operation of entry[direction]) await applyOperation(operation);
+        set((state) => ({
+          [from]: state[from].slice(0, -1),
+          [to]: [...state[to], entry],
+        }));
+        toast.success(`${direction === "undo" ? "Undone" : "Redone"}: ${entry.message}`);
+      } catch (err) {
+        console.error(err);
+        toast.error(`Couldn't ${direction} "${entry.message}"`);
+      } finally {
+        set({ isApplying: false });
+      }
+    };
+
+    return {
+      past: [],
+      future: [],
+      isApplying: false,
+
+      // A new change makes the redo stack meaningless
+      push: (entry) =>
+        set((state) => ({ past: [...state.past, entry].slice(-MAX_HISTORY), future: [] })),
+      undo: () => run("undo"),
+      undoEntry: (entryId) => run("undo", entryId),
+      redo: () => run("redo"),
+      clear: () => set({ past: [], future: [] }),
+    };
+  })
+);
+
+// -----------------------------
+// Recording
+// -----------------------------
+// Called by mutation hooks in place of their success toast. Records the
+// change (when it can be inverted) and offers to undo it from the toast.
+export function recordChange(message: string, change?: HistoryChange) {
+  const { isApplying, push, undoEntry } = useUndoStore.getState();
+  if (isApplying) return; // the undo/redo toast replaces it
+
+  if (!change || !applyOperation) {
+    toast.success(message);
+    return;
+  }
+
+  const entry = { ...change, id: crypto.randomUUID(), message, recordedAt: new Date().toISOString() };
+  push(entry);
+  showUndoToast(message, () => undoEntry(entry.id));
+}
@@ -0,0 +1,8 @@
+-- Tasks link to events by id. Rows that only carry the old free-text
+-- "relatedEventName" are matched by title once; purging an event unlinks
+-- its tasks.
+alter table tasks add column "eventId" uuid references events(id) on delete set null;
+
+update tasks set "eventId" = events.id
+  from events
+  where tasks."relatedEventName" = events.title;
@@ -0,0 +1,14 @@
+-- Priority and status sort by rank, not alphabetically. Generated, so every
+-- row has them no matter which client wrote it (PRIORITY_RANK / STATUS_RANK
+-- in src/features/tasks/taskSort.ts).
+alter table tasks
+  drop column if exists "priorityRank",
+  drop column if exists "statusRank";
+
+alter table tasks
+  add column "priorityRank" smallint generated always as (
+    case priority when 'Urgent' then 0 when 'High' then 1 when 'Normal' then 2 when 'Low' then 3 end
+  ) stored,
+  add column "statusRank" smallint generated always as (
+    case status when 'To Do' then 0 when 'In Progress' then 1 when 'Done' then 2 end
+  ) stored;
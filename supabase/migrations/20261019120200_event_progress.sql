@@ -0,0 +1,39 @@
+-- An event's progress follows its linked tasks. The event row is locked
+-- while counting, so concurrent task writes cannot leave a stale value; the
+-- rounding matches computeEventProgress (src/features/events/eventProgress.ts).
+create or replace function event_progress(event_id uuid) returns integer language sql stable as $$
+  select case
+    when count(*) filter (where status = 'Done') = 0 then 0
+    when count(*) filter (where status = 'Done') = count(*) then 100
+    else least(99, greatest(1, round(100.0 * count(*) filter (where status = 'Done') / count(*))))::integer
+  end
+  from tasks where "eventId" = event_id and "deletedAt" is null;
+$$;
+
+create or replace function refresh_event_progress(event_id uuid) returns void language plpgsql as $$
+begin
+  perform 1 from events where id = event_id for update;
+  update events set progress = event_progress(event_id) where id = event_id;
+end $$;
+
+create or replace function tasks_event_progress() returns trigger language plpgsql as $$
+begin
+  if tg_op <> 'INSERT' and old."eventId" is not null then perform refresh_event_progress(old."eventId"); end if;
+  if tg_op <> 'DELETE' and new."eventId" is not null then perform refresh_event_progress(new."eventId"); end if;
+  return null;
+end $$;
+
+create trigger tasks_event_progress after insert or delete or update of status, "eventId", "deletedAt" on tasks
+  for each row execute function tasks_event_progress();
+
+-- A re-created event (undo, restore) picks up tasks still linked to its id
+create or replace function events_initial_progress() returns trigger language plpgsql as $$
+begin
+  new.progress := event_progress(new.id);
+  return new;
+end $$;
+
+create trigger events_initial_progress before insert on events
+  for each row execute function events_initial_progress();
+
+update events set progress = event_progress(id);
@@ -0,0 +1,15 @@
+-- Board moves: per-grouping ranks, and one function that saves a move that
+-- renumbers a column completely or not at all (TaskRepository.updateBoard).
+alter table tasks add column "boardRanks" jsonb;
+
+create or replace function update_task_board(updates jsonb) returns setof tasks language sql as $$
+  update tasks t set
+    status = coalesce(u.data->>'status', t.status),
+    priority = coalesce(u.data->>'priority', t.priority),
+    assignees = case when u.data ? 'assignees'
+      then array(select jsonb_array_elements_text(u.data->'assignees')) else t.assignees end,
+    "boardRanks" = coalesce(t."boardRanks", '{}') || coalesce(u.data->'boardRanks', '{}')
+  from jsonb_to_recordset(updates) as u(id uuid, data jsonb)
+  where t.id = u.id
+  returning t.*;
+$$;
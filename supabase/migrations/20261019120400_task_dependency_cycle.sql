@@ -0,0 +1,21 @@
+-- The task repository refuses dependency cycles before writing; this refuses
+-- the ones two clients close at the same time. Edits to "blockedBy" are
+-- serialized by an advisory lock.
+create or replace function tasks_dependency_cycle() returns trigger language plpgsql as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('tasks."blockedBy"'));
+  if exists (
+    with recursive reachable(id) as (
+      select unnest(new."blockedBy")
+      union
+      select unnest(t."blockedBy") from tasks t join reachable r on t.id = r.id where t.id <> new.id
+    )
+    select 1 from reachable where id = new.id
+  ) then
+    raise exception 'This dependency would create a cycle' using hint = 'dependency_cycle';
+  end if;
+  return new;
+end $$;
+
+create trigger tasks_dependency_cycle before insert or update of "blockedBy" on tasks
+  for each row when (cardinality(new."blockedBy") > 0) execute function tasks_dependency_cycle();
@@ -0,0 +1,7 @@
+-- Task attachments and event covers (src/features/uploads)
+alter table tasks add column if not exists attachments text[];
+
+insert into storage.buckets (id, name, public) values ('uploads', 'uploads', true);
+
+create policy "uploads by members" on storage.objects for all to authenticated
+  using (bucket_id = 'uploads') with check (bucket_id = 'uploads');
@@ -0,0 +1,46 @@
+-- "isBlocked" is true while a task in "blockedBy" is unfinished (not Done,
+-- not in the trash); unknown and deleted blockers do not count. It depends
+-- on other rows, so the database keeps it: a task's own flag when its
+-- "blockedBy" is written, its dependents' flags when a blocker changes.
+-- Refreshes take one transaction lock and read in a statement after it, so
+-- two clients completing blockers at the same time cannot store a stale
+-- flag. Dependents are updated as the table owner (security definer), so a
+-- client needs no rights on teammates' tasks.
+alter table tasks
+  add column if not exists "blockedBy" uuid[] not null default '{}',
+  add column if not exists "isBlocked" boolean not null default false;
+
+create or replace function task_is_blocked(blocked_by uuid[]) returns boolean language sql as $$
+  select exists (
+    select 1 from tasks
+    where id = any(coalesce(blocked_by, '{}')) and status <> 'Done' and "deletedAt" is null
+  );
+$$;
+
+create or replace function tasks_own_blocked_state() returns trigger language plpgsql as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('tasks."isBlocked"'));
+  new."isBlocked" := task_is_blocked(new."blockedBy");
+  return new;
+end $$;
+
+-- Also on "isBlocked", so the flag cannot be written directly
+create trigger tasks_own_blocked_state before insert or update of "blockedBy", "isBlocked" on tasks
+  for each row execute function tasks_own_blocked_state();
+
+create or replace function tasks_dependents_blocked_state() returns trigger
+  language plpgsql security definer set search_path = public as $$
+declare
+  blocker_id uuid := coalesce(new.id, old.id);
+begin
+  perform pg_advisory_xact_lock(hashtext('tasks."isBlocked"'));
+  update tasks set "isBlocked" = task_is_blocked("blockedBy")
+    where "blockedBy" @> array[blocker_id] and "isBlocked" is distinct from task_is_blocked("blockedBy");
+  return null;
+end $$;
+
+-- Inserts too: a re-created task (undo, restore) can already be a blocker
+create trigger tasks_dependents_blocked_state after insert or delete or update of status, "deletedAt" on tasks
+  for each row execute function tasks_dependents_blocked_state();
+
+update tasks set "isBlocked" = task_is_blocked("blockedBy");
@@ -0,0 +1,30 @@
+-- updatedAt / updated_at is the row version the offline queue replays
+-- against (update(id, data, { ifVersion })), so the database sets it on
+-- every update and ignores what clients send. Rewrites of derived columns
+-- alone (tasks."isBlocked", events.progress) keep the old version, so they
+-- do not turn a queued edit into a conflict.
+create or replace function tasks_updated_at() returns trigger language plpgsql as $$
+begin
+  if to_jsonb(new) - 'isBlocked' - 'updatedAt' = to_jsonb(old) - 'isBlocked' - 'updatedAt' then
+    new."updatedAt" := old."updatedAt";
+  else
+    new."updatedAt" := clock_timestamp();
+  end if;
+  return new;
+end $$;
+
+create trigger tasks_updated_at before update on tasks
+  for each row execute function tasks_updated_at();
+
+create or replace function events_updated_at() returns trigger language plpgsql as $$
+begin
+  if to_jsonb(new) - 'progress' - 'updated_at' = to_jsonb(old) - 'progress' - 'updated_at' then
+    new.updated_at := old.updated_at;
+  else
+    new.updated_at := clock_timestamp();
+  end if;
+  return new;
+end $$;
+
+create trigger events_updated_at before update on events
+  for each row execute function events_updated_at();